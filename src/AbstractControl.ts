@@ -1,12 +1,26 @@
-import { from, Subject, Subscription } from "rxjs";
-import { coerceToAsyncValidator, coerceToValidator, isOptionsObj, _find } from "./controlUtils";
+import { from, Observable, Subject, Subscription, timer } from "rxjs";
+import { switchMap } from "rxjs/operators";
+import {
+  coerceToAsyncValidator,
+  coerceToValidator,
+  coerceToValidatorList,
+  isOptionsObj,
+  _find
+} from "./controlUtils";
+import ErrorStateMatchers from "./errorStateMatchers";
+import { generateKey } from "./utils";
 import { FormArray } from "./FormArray";
 import { FormGroup } from "./FormGroup";
 import {
   AsyncValidatorFn,
+  ControlErrorEntry,
+  DirtyCheck,
   DISABLED,
+  ErrorStateMatcher,
   FieldStatus,
+  FocusOptions,
   FormHooks,
+  GetControl,
   INVALID,
   PENDING,
   UpdateOptions,
@@ -25,9 +39,18 @@ import {
  * that are shared between all sub-classes, like `value`, `valid`, and `dirty`. It shouldn't be
  * instantiated directly.
  */
-export abstract class AbstractControl {
+export abstract class AbstractControl<TValue = any, TRawValue extends TValue = TValue> {
+  /**
+   * A unique id which stays the same for the whole life of the control.
+   */
+  public readonly id: string = generateKey("control");
   public validator: ValidatorFn | null = null;
   public asyncValidator: AsyncValidatorFn | null = null;
+  /**
+   * Time in ms to wait after the last value change before running the async validator.
+   */
+  public asyncDebounce = 0;
+  public focusInvalidOnSubmit = false;
   public status: FieldStatus = "VALID";
   public errors: ValidationErrors | null = null;
   public touched = false;
@@ -36,16 +59,25 @@ export abstract class AbstractControl {
   public meta: { [key: string]: any } = {};
   public statusChanges: Subject<any>;
   public stateChanges: Subject<any>;
-  public valueChanges: Subject<any>;
-  public value: any;
-  protected abstract _pendingChange = this.updateOn !== "change";
+  public valueChanges: Subject<TValue>;
+  public value!: TValue;
+  protected _pendingChange = false;
   protected _pendingDirty = false;
   protected _pendingTouched = false;
   protected _asyncValidationSubscription: Subscription;
-  protected abstract _onCollectionChange: () => void;
+  protected _asyncValidationAbort: AbortController | null = null;
+  protected _onCollectionChange: () => void = () => {
+    // empty
+  };
   private _parent: AbstractControl | null = null;
-  private _updateOn: FormHooks = "change";
+  private _updateOn: FormHooks | null = null;
+  private _debounceTime: number | null = null;
+  private _dirtyCheck: DirtyCheck | null = null;
+  private _validationGroup: string | null = null;
+  private _errorStateMatcher: ErrorStateMatcher | null = null;
+  private _rawValidators: ValidatorFn[] = [];
   private _onDisabledChange: Array<(disabled: boolean) => void> = [];
+  private _stateVersion = 0;
   /**
    * @param {Function|null} validator
    * @param {Function|null} asyncValidator
@@ -64,13 +96,14 @@ export abstract class AbstractControl {
     // this.patchValue = this.patchValue.bind(this);
     // this.setValue = this.setValue.bind(this);
   }
-  public abstract reset(value: any, options?: UpdateOptions): void;
-  public abstract setValue(value: any, options?: UpdateOptions): void;
+  public abstract reset(value?: any, options?: UpdateOptions): void;
+  public abstract setValue(value: TRawValue, options?: UpdateOptions): void;
   public abstract patchValue(value: any, options?: UpdateOptions): void;
   /**
    * Returns the update strategy of the `AbstractControl` (i.e.
    * the event on which the control will update itself).
-   * Possible values: `'change'` (default) | `'blur'` | `'submit'`
+   * Possible values: `'change'` (default) | `'blur'` | `'submit'` | `'debounce'`
+   * It's inherited from the parent when not set on the control.
    */
   public get updateOn(): FormHooks {
     return this._updateOn
@@ -79,6 +112,71 @@ export abstract class AbstractControl {
         ? this.parent.updateOn
         : "change";
   }
+  /**
+   * Returns the time in ms to wait after the last change before committing the value
+   * of a control updated on `debounce`. It's inherited from the parent when not set on the control.
+   */
+  public get debounceTime(): number {
+    return this._debounceTime !== null
+      ? this._debounceTime
+      : this.parent
+        ? this.parent.debounceTime
+        : 0;
+  }
+  /**
+   * Returns the name of the active validation group, used by `Validators.groups`.
+   * It's inherited from the parent when not set on the control.
+   */
+  public get validationGroup(): string | null {
+    return this._validationGroup
+      ? this._validationGroup
+      : this.parent
+        ? this.parent.validationGroup
+        : null;
+  }
+  /**
+   * Returns the strategy deciding when the errors of the control are shown.
+   * It's inherited from the parent when not set on the control, `touchedOrSubmitted` by default.
+   */
+  public get errorStateMatcher(): ErrorStateMatcher {
+    return this._errorStateMatcher
+      ? this._errorStateMatcher
+      : this.parent
+        ? this.parent.errorStateMatcher
+        : ErrorStateMatchers.touchedOrSubmitted;
+  }
+  /**
+   * Returns how the `dirty` status is computed, `interaction` by default.
+   * It's inherited from the parent when not set on the control.
+   */
+  public get dirtyCheck(): DirtyCheck {
+    return this._dirtyCheck
+      ? this._dirtyCheck
+      : this.parent
+        ? this.parent.dirtyCheck
+        : "interaction";
+  }
+  /**
+   * A control shows its errors when it has errors and its error state matcher agrees,
+   * e.g. after it has been touched.
+   * @return {Boolean}
+   */
+  public get showErrors(): boolean {
+    return !!this.errors && this.errorStateMatcher(this);
+  }
+  /**
+   * The errors of the control if they should be shown, `null` otherwise.
+   */
+  public get visibleErrors(): ValidationErrors | null {
+    return this.showErrors ? this.errors : null;
+  }
+  /**
+   * A number incremented on every `stateChanges` emission, the snapshot of the control
+   * read by `useControlState`.
+   */
+  public get stateVersion(): number {
+    return this._stateVersion;
+  }
   /**
    * A control is `dirty` if the user has changed the value
    * in the UI.
@@ -126,6 +224,22 @@ export abstract class AbstractControl {
   public get parent(): AbstractControl | null {
     return this._parent;
   }
+  /**
+   * The name of the control in its parent, the index for an item of a `FormArray`.
+   * @return {String|Number|null}
+   */
+  public get name(): string | number | null {
+    return this._parent ? this._parent._getChildName(this) : null;
+  }
+  /**
+   * The names of the controls from the root to this control, e.g. `['addresses', 2, 'zip']`.
+   * It's computed on access so it follows the changes of the `FormArray` indexes.
+   * @return {(String|Number)[]}
+   */
+  public get path(): Array<string | number> {
+    const name = this.name;
+    return this._parent && name !== null ? this._parent.path.concat(name) : [];
+  }
   /**
    * A control is `untouched` if the user has not yet triggered
    * a `blur` event on it.
@@ -177,6 +291,7 @@ export abstract class AbstractControl {
    * @return {void}
    */
   public disable(opts: UpdateOptions): void {
+    this._cancelExistingSubscription();
     this.status = DISABLED;
     this.errors = null;
     this._forEachChild((control: AbstractControl) => {
@@ -246,6 +361,42 @@ export abstract class AbstractControl {
       this.parent.updateValueAndValidity(options);
     }
   }
+  /**
+   * Focuses the element of the control, for a `FormGroup` or a `FormArray` the first
+   * descendant having a registered element.
+   * @param {{scroll: Boolean}} opts
+   * @return {Boolean} `true` if an element has been focused
+   */
+  public focus(opts: FocusOptions = {}): boolean {
+    let focused = false;
+    this._forEachChild(control => {
+      focused = focused || control.focus(opts);
+    });
+    return focused;
+  }
+  /**
+   * Focuses and scrolls to the first invalid `FormControl` of the tree, in tree order.
+   * The errors of a group don't focus anything by themselves.
+   * @return {Boolean} `true` if an element has been focused
+   */
+  public focusFirstInvalid(): boolean {
+    let focused = false;
+    this._forEachChild(control => {
+      focused = focused || control.focusFirstInvalid();
+    });
+    return focused;
+  }
+  /**
+   * Cancels the pending async validation of the control and of its children, the
+   * validators are notified through the `signal` of their context.
+   *
+   * Call it when the control is not used anymore.
+   * @return {void}
+   */
+  public destroy(): void {
+    this._cancelExistingSubscription();
+    this._forEachChild(control => control.destroy());
+  }
   /**
    * Marks the control as `touched`.
    *
@@ -389,14 +540,79 @@ export abstract class AbstractControl {
    */
   public setValidators(newValidator: ValidatorFn | ValidatorFn[] | null): void {
     this.validator = coerceToValidator(newValidator);
+    this._rawValidators = coerceToValidatorList(newValidator);
+  }
+  /**
+   * Checks whether a validator has been set on the control, it must be the same
+   * function reference, e.g. `Validators.required`.
+   * @param {Function} validator
+   * @return {Boolean}
+   */
+  public hasValidator(validator: ValidatorFn): boolean {
+    return this._rawValidators.indexOf(validator) > -1;
   }
   /**
    * Sets the async validators that are active on this control. Calling this
    * will overwrite any existing async validators.
    */
-  public setAsyncValidators(newValidator: ValidatorFn | ValidatorFn[] | null): void {
+  public setAsyncValidators(newValidator: AsyncValidatorFn | AsyncValidatorFn[] | null): void {
     this.asyncValidator = coerceToAsyncValidator(newValidator);
   }
+  /**
+   * Activates a validation group for the control and its children, then re-runs
+   * the validators of the whole subtree.
+   *
+   * ### Example
+   *
+   * ```
+   * const invoice = new FormGroup({...}, Validators.groups({
+   *   draft: [...],
+   *   publish: [...]
+   * }));
+   * invoice.setValidationGroup("publish");
+   * ```
+   * @param {String|null} name
+   * @param {{onlySelf: Boolean, emitEvent: Boolean}} opts
+   * @return {void}
+   */
+  public setValidationGroup(name: string | null, opts: UpdateOptions = {}): void {
+    this._validationGroup = name;
+    this._updateTreeValidity({ emitEvent: opts.emitEvent });
+    if (this._parent && !opts.onlySelf) {
+      this._parent.updateValueAndValidity(opts);
+    }
+  }
+  /**
+   * Sets the values the controls are reset to and, with the `value` dirty check, compared with.
+   * The current values are used when no value is given.
+   *
+   * ### Example
+   *
+   * ```
+   * // after the form has been saved
+   * form.setInitialValue();
+   * ```
+   * @param {any} value
+   * @return {void}
+   */
+  public setInitialValue(value?: any): void {
+    this._forEachChild((control, name) => {
+      control.setInitialValue(value == null ? undefined : value[name]);
+    });
+  }
+  /**
+   * Sets the strategy deciding when the errors of the control and of its children are shown,
+   * pass `null` to inherit the strategy of the parent.
+   * @param {Function|null} matcher
+   * @param {{emitEvent: Boolean}} opts
+   * @return {void}
+   */
+  public setErrorStateMatcher(matcher: ErrorStateMatcher | null, opts: UpdateOptions = {}): void {
+    this._errorStateMatcher = matcher;
+    if (opts.emitEvent !== false) {
+      this._emitTreeStateChanges();
+    }
+  }
   /**
    * Sets errors on a form control.
    *
@@ -437,6 +653,8 @@ export abstract class AbstractControl {
    * @param {(String|Number)[]|String} path
    * @return {AbstractControl|null}
    */
+  public get<P extends string>(path: P): GetControl<this, P> | null;
+  public get(path: Array<string | number> | string): AbstractControl | null;
   public get(path: Array<string | number> | string): AbstractControl | null {
     return _find(this, path, ".");
   }
@@ -464,11 +682,36 @@ export abstract class AbstractControl {
   public hasError(errorCode: string, path: Array<string | number> | string): boolean {
     return !!this.getError(errorCode, path);
   }
+  /**
+   * Lists the errors of the control and of all its descendants, the errors set on
+   * a `FormGroup` or a `FormArray` itself included.
+   *
+   * ### Example
+   *
+   * ```
+   * form.getAllErrors();
+   * // [{ path: ["address", "zip"], control: zipControl, errors: { required: true } }]
+   * ```
+   * @return {{path: (String|Number)[], control: AbstractControl, errors: Object}[]}
+   */
+  public getAllErrors(): ControlErrorEntry[] {
+    const entries: ControlErrorEntry[] = [];
+    this._collectErrors([], entries);
+    return entries;
+  }
+  /**
+   * The raw value of the control, for `FormGroup` and `FormArray` it includes
+   * the values of the disabled controls.
+   */
+  public getRawValue(): TRawValue {
+    return this.value as TRawValue;
+  }
   /**
    * Empties out the sync validator list.
    */
   public clearValidators(): void {
     this.validator = null;
+    this._rawValidators = [];
   }
   /**
    * Empties out the async validator list.
@@ -480,29 +723,98 @@ export abstract class AbstractControl {
    * @param {FormGroup|FormArray} parent
    * @return {Void}
    */
-  public setParent(parent: FormGroup | FormArray): void {
+  public setParent(parent: FormGroup<any> | FormArray<any>): void {
     this._parent = parent;
   }
+  public _registerOnCollectionChange(fn: () => void): void {
+    this._onCollectionChange = fn;
+  }
+  /**
+   * Returns the direct child control with the given name or index, if any.
+   * @param {String|Number} name
+   * @return {AbstractControl|null}
+   */
+  public _getChild(name: string | number): AbstractControl | null {
+    return null;
+  }
+  /**
+   * Returns the name or index of a direct child control, `null` if it isn't a child.
+   * @param {AbstractControl} control
+   * @return {String|Number|null}
+   */
+  public _getChildName(control: AbstractControl): string | number | null {
+    return null;
+  }
+  /**
+   * Commits the pending values of the controls updated on `submit`.
+   * @return {Boolean} `true` if any value has been updated
+   */
+  public abstract _syncPendingControls(): boolean;
   protected _initObservables(): void {
     this.valueChanges = new Subject();
     this.statusChanges = new Subject();
     this.stateChanges = new Subject();
+    this.stateChanges.subscribe(() => {
+      this._stateVersion++;
+    });
+  }
+  /**
+   * @param {{updateOn: 'change' | 'blur' | 'submit' | 'debounce' | {debounce: Number}, debounceTime: Number}} opts
+   * @return {Void}
+   */
+  protected _setUpdateStrategy(opts?: ValidatorFn | ValidatorFn[] | ValidatorOptions | null): void {
+    if (isOptionsObj(opts)) {
+      if (typeof opts.updateOn === "object" && opts.updateOn !== null) {
+        this._updateOn = "debounce";
+        this._debounceTime = opts.updateOn.debounce;
+      } else if (opts.updateOn != null) {
+        this._updateOn = opts.updateOn;
+      }
+      if (opts.debounceTime != null) {
+        this._debounceTime = opts.debounceTime;
+      }
+    }
   }
   /**
-   * @param {{validators: Function|Function[]|null, asyncValidators: Function|Function[]|null, updateOn: 'change' | 'blur' | 'submit'}} opts
+   * @param {{validators: Function|Function[]|null, asyncDebounce: Number, errorStateMatcher: Function, focusInvalidOnSubmit: Boolean, dirtyCheck: String}} opts
    * @return {Void}
    */
-  protected _setUpdateStrategy(opts: ValidatorOptions): void {
-    if (isOptionsObj(opts) && opts.updateOn != null) {
-      this._updateOn = opts.updateOn;
+  protected _setControlOptions(opts?: ValidatorFn | ValidatorFn[] | ValidatorOptions | null): void {
+    this._rawValidators = coerceToValidatorList(opts);
+    if (isOptionsObj(opts)) {
+      if (opts.asyncDebounce != null) {
+        this.asyncDebounce = opts.asyncDebounce;
+      }
+      if (opts.errorStateMatcher) {
+        this._errorStateMatcher = opts.errorStateMatcher;
+      }
+      if (opts.focusInvalidOnSubmit != null) {
+        this.focusInvalidOnSubmit = opts.focusInvalidOnSubmit;
+      }
+      if (opts.dirtyCheck) {
+        this._dirtyCheck = opts.dirtyCheck;
+      }
     }
   }
+  protected _emitTreeStateChanges(): void {
+    this._forEachChild(control => control._emitTreeStateChanges());
+    this.stateChanges.next(null);
+  }
+  /**
+   * Re-calculates the value and validity of the children first, then of the control.
+   * @param {{emitEvent: Boolean}} opts
+   * @return {void}
+   */
+  protected _updateTreeValidity(opts: UpdateOptions = {}): void {
+    this._forEachChild(control => control._updateTreeValidity(opts));
+    this.updateValueAndValidity({
+      onlySelf: true,
+      emitEvent: opts.emitEvent
+    });
+  }
   protected _anyControlsUnsubmitted(): boolean {
     return this._anyControls((control: AbstractControl) => !control.submitted);
   }
-  protected _registerOnCollectionChange(fn: () => void): void {
-    this._onCollectionChange = fn;
-  }
   /**
    * @param {{onlySelf: boolean}} opts
    * @return {void}
@@ -523,7 +835,16 @@ export abstract class AbstractControl {
       this._parent._updateTouched(opts);
     }
   }
-  protected abstract _forEachChild(cb: (c: AbstractControl) => void): void;
+  protected _collectErrors(path: Array<string | number>, entries: ControlErrorEntry[]): void {
+    if (this.errors) {
+      entries.push({ path, control: this, errors: this.errors });
+    }
+    this._forEachChild((control, name) => control._collectErrors(path.concat(name), entries));
+  }
+  protected _runValidator(): ValidationErrors | null {
+    return this.validator ? this.validator(this) : null;
+  }
+  protected abstract _forEachChild(cb: (c: AbstractControl, name: string | number) => void): void;
   protected abstract _updateValue(): void;
   protected abstract _allControlsDisabled(): boolean;
   protected abstract _anyControls(cb: (c: AbstractControl) => boolean): boolean;
@@ -554,19 +875,27 @@ export abstract class AbstractControl {
     if (this._anyControlsHaveStatus(INVALID)) return INVALID;
     return VALID;
   }
-  private _runValidator(): ValidationErrors | null {
-    return this.validator ? this.validator(this) : null;
-  }
   /**
    * @param {Booelan} emitEvent
    * @return {void}
    */
   private _runAsyncValidator(emitEvent: boolean): void {
-    if (this.asyncValidator) {
+    const asyncValidator = this.asyncValidator;
+    if (asyncValidator) {
       this.status = PENDING;
-      const obs = from(this.asyncValidator(this));
+      const abortController = new AbortController();
+      const context = { signal: abortController.signal };
+      const obs: Observable<ValidationErrors | null> = this.asyncDebounce > 0
+        ? timer(this.asyncDebounce).pipe(switchMap(() => from(asyncValidator(this, context))))
+        : from(asyncValidator(this, context));
+      this._asyncValidationAbort = abortController;
       this._asyncValidationSubscription = obs.subscribe(
         {
+          next: (errors: ValidationErrors | null) => {
+            this.setErrors(errors, {
+              emitEvent
+            })
+          },
           error: (errors: ValidationErrors) => {
             this.setErrors(errors, {
               emitEvent
@@ -580,6 +909,10 @@ export abstract class AbstractControl {
     if (this._asyncValidationSubscription) {
       this._asyncValidationSubscription.unsubscribe();
     }
+    if (this._asyncValidationAbort) {
+      this._asyncValidationAbort.abort();
+      this._asyncValidationAbort = null;
+    }
   }
   /**
    * @return {Boolean}
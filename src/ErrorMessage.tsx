@@ -0,0 +1,49 @@
+import React, { Component } from 'react';
+import { AbstractControl } from "./AbstractControl";
+import { getErrorMessage, getErrorMessages } from "./errorMessages";
+import Field from './Field';
+import { getErrorId } from './utils';
+
+interface IErrorMessageProps {
+  control: AbstractControl | null
+  /**
+   * Only displays the message of this error code.
+   */
+  code?: string
+  locale?: string
+  render?: (messages: string[], control: AbstractControl) => JSX.Element | null
+}
+
+/**
+ * Displays the localized messages of the visible errors of a control, as decided by
+ * its error state matcher. It re-renders only when the visible errors change.
+ * The messages are rendered with the id referenced by the `aria-describedby` of the input.
+ */
+export default class ErrorMessage extends Component<IErrorMessageProps> {
+  private renderMessages = (control: AbstractControl): JSX.Element | null => {
+    const { code, locale, render } = this.props
+    const messages = !control.showErrors
+      ? []
+      : code
+        ? [getErrorMessage(control, code, locale)].filter((message): message is string => message != null)
+        : getErrorMessages(control, locale)
+    if (render) {
+      return render(messages, control)
+    }
+    if (!messages.length) {
+      return null
+    }
+    return <span id={getErrorId(control)}>{messages.join(' ')}</span>
+  }
+  public render(): JSX.Element {
+    const { control } = this.props
+    return (
+      <Field
+        control={control}
+        strict={false}
+        subscribe={['showErrors', 'visibleErrors']}
+        render={this.renderMessages}
+      />
+    )
+  }
+}
@@ -0,0 +1,32 @@
+import React, { Component } from 'react'
+import FieldContext, { ContextType } from './FieldContext'
+import { ErrorStateMatcher } from "./types";
+
+interface IErrorStateMatcherProviderProps {
+  matcher: ErrorStateMatcher
+}
+
+/**
+ * Sets the strategy deciding when the errors are shown for every form rendered beneath it.
+ * The matcher is set on the root controls of the `FieldGroup`, `FieldArray` and `FieldControl`
+ * components when they are mounted, a matcher passed in the options of a control takes precedence.
+ *
+ * ### Example
+ *
+ * ```
+ * <ErrorStateMatcherProvider matcher={ErrorStateMatchers.submitted}>
+ *   <FieldGroup control={loginForm} render={...} />
+ * </ErrorStateMatcherProvider>
+ * ```
+ */
+export default class ErrorStateMatcherProvider extends Component<IErrorStateMatcherProviderProps> {
+  public static contextType = FieldContext
+  public render(): JSX.Element {
+    const context: ContextType = this.context
+    return React.createElement(
+      FieldContext.Provider,
+      { value: { ...context, errorStateMatcher: this.props.matcher } },
+      this.props.children
+    )
+  }
+}
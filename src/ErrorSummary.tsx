@@ -0,0 +1,76 @@
+import React, { Component } from 'react';
+import { AbstractControl } from "./AbstractControl";
+import { getErrorMessages } from "./errorMessages";
+import Field from './Field';
+import { ControlErrorEntry } from "./types";
+import { getControlId, getControlName } from './utils';
+
+interface IErrorSummaryProps {
+  control: AbstractControl | null
+  title?: React.ReactNode
+  locale?: string
+  render?: (entries: ControlErrorEntry[], control: AbstractControl) => JSX.Element | null
+}
+
+/**
+ * Lists every error of a form, each message links to the input of its control.
+ * The registered element of the first invalid `FormControl` of the entry is focused,
+ * the element having the id or the name derived from the control path otherwise.
+ */
+export default class ErrorSummary extends Component<IErrorSummaryProps> {
+  private selectErrors = (control: AbstractControl): { [name: string]: any } => {
+    return control.getAllErrors().reduce((acc, entry) => {
+      acc[entry.control.id] = entry.errors
+      return acc
+    }, {} as { [name: string]: any })
+  }
+  private renderSummary = (control: AbstractControl): JSX.Element | null => {
+    const { title, locale, render } = this.props
+    const entries = control.getAllErrors()
+    if (render) {
+      return render(entries, control)
+    }
+    if (!entries.length) {
+      return null
+    }
+    return (
+      <div role="alert">
+        {title}
+        <ul>
+          {entries.map(entry => (
+            <li key={entry.control.id}>
+              <a href={`#${getControlId(entry.control)}`} onClick={this.handleClick(entry)}>
+                {getErrorMessages(entry.control, locale).join(' ')}
+              </a>
+            </li>
+          ))}
+        </ul>
+      </div>
+    )
+  }
+  public render(): JSX.Element {
+    const { control } = this.props
+    return (
+      <Field
+        control={control}
+        strict={false}
+        selector={this.selectErrors}
+        render={this.renderSummary}
+      />
+    )
+  }
+  private handleClick(entry: ControlErrorEntry): (e: React.MouseEvent) => void {
+    return (e: React.MouseEvent) => {
+      if (entry.control.focusFirstInvalid()) {
+        e.preventDefault()
+        return
+      }
+      const element = document.getElementById(getControlId(entry.control))
+        || document.getElementsByName(getControlName(entry.control.path))[0]
+      if (element) {
+        e.preventDefault()
+        element.focus()
+      }
+    }
+  }
+}
@@ -1,19 +1,31 @@
 import React, { Component } from 'react';
 import { Subscription } from "rxjs";
-import { FormArray } from "./FormArray";
-import { FormControl } from "./FormControl";
-import { FormGroup } from "./FormGroup";
-import { warning } from './utils';
+import { AbstractControl } from "./AbstractControl";
+import { getControlState, IControlState } from "./hooks";
+import { shallowEqual, warning } from './utils';
 
-type ControlTypes = FormControl | FormArray | FormGroup
+type ControlTypes = AbstractControl
+
+type RenderFn = (control: any) => JSX.Element | null
 
 interface IFieldProps {
   strict?: boolean
-  control: ControlTypes
-  render?: () => JSX.Element
+  control: ControlTypes | null
+  render?: RenderFn | null
+  children?: RenderFn | React.ReactNode
+  /**
+   * Re-renders only when one of the given state properties changes.
+   */
+  subscribe?: Array<keyof IControlState>
+  /**
+   * Re-renders only when the selected value changes (shallow comparison).
+   */
+  selector?: (control: any) => any
 }
 
 export default class Field extends Component<IFieldProps> {
+  private subscription: Subscription | null = null
+  private selection: any = null
   public componentDidMount(): void {
     const { control } = this.props
     // Add listener
@@ -22,36 +34,37 @@ export default class Field extends Component<IFieldProps> {
   public componentDidUpdate(prevProps: IFieldProps): void {
     const { control } = this.props
     if (control !== prevProps.control) {
-      this.removeListener(control)
+      this.removeListener()
       this.addListener(control)
     }
   }
-  public addListener(control: ControlTypes): void {
+  public addListener(control: ControlTypes | null): void {
     if (control) {
-      control.stateChanges.subscribe(() => {
-        this.forceUpdate()
+      this.selection = this.select(control)
+      this.subscription = control.stateChanges.subscribe(() => {
+        const selection = this.select(control)
+        if (!this.isSelective() || !shallowEqual(selection, this.selection)) {
+          this.selection = selection
+          this.forceUpdate()
+        }
       })
     }
   }
-  public removeListener(control: ControlTypes): void {
-    if (control) {
-      if (control.stateChanges.observers) {
-        control.stateChanges.observers.forEach((observer: Subscription) => {
-          control.stateChanges.unsubscribe(observer)
-        })
-      }
+  public removeListener(): void {
+    if (this.subscription) {
+      this.subscription.unsubscribe()
+      this.subscription = null
     }
   }
   public componentWillUnmount(): void {
-    const { control } = this.props
     // Remove Listener
-    this.removeListener(control)
+    this.removeListener()
   }
   public shouldComponentUpdate(props: IFieldProps): boolean {
     if (!props.strict) {
       return true
     }
-    return false
+    return props.control !== this.props.control
   }
   public getComponent(): JSX.Element {
     const { render, children, control } = this.props
@@ -61,12 +74,12 @@ export default class Field extends Component<IFieldProps> {
     )
     if (control) {
       // Render function as child
-      if (children) {
-        return children(control)
+      if (typeof children === 'function') {
+        return children(control) || <></>
       }
       // Render function as render prop
       if (render) {
-        return render(control)
+        return render(control) || <></>
       }
       return <></>
     }
@@ -75,4 +88,27 @@ export default class Field extends Component<IFieldProps> {
   public render(): JSX.Element {
     return this.getComponent()
   }
+  private isSelective(): boolean {
+    const { subscribe, selector } = this.props
+    return !!(subscribe || selector)
+  }
+  /**
+   * Picks the part of the control state which triggers a re-render.
+   * @param {AbstractControl} control
+   * @return {any}
+   */
+  private select(control: ControlTypes): any {
+    const { subscribe, selector } = this.props
+    if (selector) {
+      return selector(control)
+    }
+    if (subscribe) {
+      const state = getControlState(control)
+      return subscribe.reduce((acc, key) => {
+        acc[key] = state[key]
+        return acc
+      }, {} as { [key: string]: any })
+    }
+    return null
+  }
 }
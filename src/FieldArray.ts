@@ -0,0 +1,84 @@
+import React, { Component } from 'react'
+import { AbstractControl } from "./AbstractControl";
+import configureControl from './configureControl'
+import Field from './Field'
+import FieldContext, { ContextType } from './FieldContext'
+import { FormArray } from "./FormArray";
+import { FormGroup } from "./FormGroup";
+import { IControlState } from "./hooks";
+import { ValidatorOptions } from "./types";
+
+export interface IFieldArrayHelpers {
+  push: (control: AbstractControl) => void,
+  insert: (index: number, control: AbstractControl) => void,
+  removeAt: (index: number) => void,
+  move: (fromIndex: number, toIndex: number) => void,
+  keys: string[]
+}
+
+interface IFieldArrayProps {
+  strict?: boolean,
+  render?: (control: FormArray, helpers: IFieldArrayHelpers) => JSX.Element,
+  subscribe?: Array<keyof IControlState>,
+  selector?: (control: FormArray) => any,
+  name?: string,
+  index?: number,
+  control?: FormArray,
+  options?: ValidatorOptions,
+  parent?: FormArray | FormGroup,
+  meta?: object
+}
+
+export default class FieldArray extends Component<IFieldArrayProps> {
+  public static contextType = FieldContext
+  public static defaultProps = {
+    strict: true
+  }
+  private control: FormArray | null
+  constructor(props: IFieldArrayProps, context: ContextType) {
+    super(props, context)
+    this.control = configureControl(props, context, 'FormArray') as FormArray | null
+  }
+  public componentDidUpdate(prevProps: IFieldArrayProps): void {
+    if (this.props.name !== prevProps.name) {
+      this.control = configureControl(this.props, this.context, 'FormArray') as FormArray | null
+    }
+  }
+  public render(): JSX.Element {
+    const { strict, children, render, subscribe, selector } = this.props
+    const renderFn = render || children as IFieldArrayProps['render']
+    const FieldProps = {
+      control: this.control,
+      strict,
+      subscribe,
+      selector,
+      render: renderFn
+        ? (control: FormArray) => renderFn(control, this.getHelpers(control))
+        : null
+    }
+    return React.createElement(
+      FieldContext.Provider,
+      { value: { ...this.context, parentControl: this.control } },
+      React.createElement(Field, FieldProps)
+    )
+  }
+  /**
+   * Returns the helpers passed to the render function, every mutation
+   * notifies the view so that the list is re-rendered.
+   * @param {FormArray} control
+   * @return {IFieldArrayHelpers}
+   */
+  private getHelpers(control: FormArray): IFieldArrayHelpers {
+    const update = (fn: () => void) => {
+      fn()
+      control.stateChanges.next(null)
+    }
+    return {
+      push: item => update(() => control.push(item)),
+      insert: (index, item) => update(() => control.insert(index, item)),
+      removeAt: index => update(() => control.removeAt(index)),
+      move: (fromIndex, toIndex) => update(() => control.move(fromIndex, toIndex)),
+      keys: control.controls.map(item => item.id)
+    }
+  }
+}
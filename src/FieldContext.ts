@@ -0,0 +1,21 @@
+import React from 'react'
+import { FormArray } from "./FormArray";
+import { FormGroup } from "./FormGroup";
+import { ErrorStateMatcher } from "./types";
+
+export type ContextType = {
+  parentControl: FormArray | FormGroup | null,
+  errorStateMatcher?: ErrorStateMatcher | null
+}
+
+/**
+ * Provides the closest `FormGroup` or `FormArray` to the nested field components,
+ * so that a `FieldControl` doesn't need an explicit `parent` prop, and the
+ * error state matcher of the closest `ErrorStateMatcherProvider`.
+ */
+const FieldContext = React.createContext<ContextType>({
+  parentControl: null,
+  errorStateMatcher: null
+})
+
+export default FieldContext
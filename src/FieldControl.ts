@@ -2,38 +2,30 @@ import React, { Component } from 'react'
 import { AbstractControl } from "./AbstractControl";
 import configureControl from './configureControl'
 import Field from './Field'
+import FieldContext, { ContextType } from './FieldContext'
 import { FormArray } from "./FormArray";
 import { FormControl } from "./FormControl";
 import { FormGroup } from "./FormGroup";
-import { ValidatorFn } from "./types";
-
-type FormState = {
-  value: any
-  disabled: boolean
-}
-
-type ContextType = {
-  parentControl: FormArray | FormGroup
-}
+import { IControlState } from "./hooks";
+import { FormState, ValidatorOptions } from "./types";
 
 interface IFieldControlProps {
-  strict: boolean,
-  render: () => JSX.Element,
-  name: string,
-  index: number,
-  control: FormControl,
-  formState: FormState | any,
-  options: {
-    validators: ValidatorFn | ValidatorFn[],
-    asyncValidators:  ValidatorFn | ValidatorFn[],
-    updateOn: 'change' | 'blur' | 'submit'
-  },
-  parent: FormArray | FormGroup,
-  meta: object
+  strict?: boolean,
+  render?: (control: FormControl) => JSX.Element,
+  subscribe?: Array<keyof IControlState>,
+  selector?: (control: FormControl) => any,
+  name?: string,
+  index?: number,
+  control?: FormControl,
+  formState?: FormState | any,
+  options?: ValidatorOptions,
+  parent?: FormArray | FormGroup,
+  meta?: object
 }
 
 export default class FieldControl extends Component<IFieldControlProps> {
-  public defaultProps = {
+  public static contextType = FieldContext
+  public static defaultProps = {
     strict: true
   }
   private control: AbstractControl | null
@@ -47,11 +39,13 @@ export default class FieldControl extends Component<IFieldControlProps> {
     }
   }
   public render(): JSX.Element {
-    const { strict, children, render } = this.props
+    const { strict, children, render, subscribe, selector } = this.props
     const FieldProps = {
       control: this.control,
       strict,
-      render: render || children || null
+      subscribe,
+      selector,
+      render: render || children as IFieldControlProps['render'] || null
     }
     return React.createElement(Field, FieldProps)
   }
@@ -0,0 +1,53 @@
+import React, { Component } from 'react'
+import configureControl from './configureControl'
+import Field from './Field'
+import FieldContext, { ContextType } from './FieldContext'
+import { FormArray } from "./FormArray";
+import { FormGroup } from "./FormGroup";
+import { IControlState } from "./hooks";
+import { ValidatorOptions } from "./types";
+
+interface IFieldGroupProps {
+  strict?: boolean,
+  render?: (control: FormGroup) => JSX.Element,
+  subscribe?: Array<keyof IControlState>,
+  selector?: (control: FormGroup) => any,
+  name?: string,
+  index?: number,
+  control?: FormGroup,
+  options?: ValidatorOptions,
+  parent?: FormArray | FormGroup,
+  meta?: object
+}
+
+export default class FieldGroup extends Component<IFieldGroupProps> {
+  public static contextType = FieldContext
+  public static defaultProps = {
+    strict: true
+  }
+  private control: FormGroup | null
+  constructor(props: IFieldGroupProps, context: ContextType) {
+    super(props, context)
+    this.control = configureControl(props, context, 'FormGroup') as FormGroup | null
+  }
+  public componentDidUpdate(prevProps: IFieldGroupProps): void {
+    if (this.props.name !== prevProps.name) {
+      this.control = configureControl(this.props, this.context, 'FormGroup') as FormGroup | null
+    }
+  }
+  public render(): JSX.Element {
+    const { strict, children, render, subscribe, selector } = this.props
+    const FieldProps = {
+      control: this.control,
+      strict,
+      subscribe,
+      selector,
+      render: render || children as IFieldGroupProps['render'] || null
+    }
+    return React.createElement(
+      FieldContext.Provider,
+      { value: { ...this.context, parentControl: this.control } },
+      React.createElement(Field, FieldProps)
+    )
+  }
+}
@@ -1,19 +1,33 @@
 import { AbstractControl } from "./AbstractControl";
 import { coerceToAsyncValidator, coerceToValidator } from "./controlUtils";
-import { FormControl } from "./FormControl";
-import { UpdateOptions, ValidatorFn, ValidatorOptions } from "./types";
+import {
+  AsyncValidatorFn,
+  DeepPartial,
+  FormArrayRawValue,
+  FormArrayValue,
+  UpdateOptions,
+  ValidatorFn,
+  ValidatorOptions
+} from "./types";
 
-export class FormArray extends AbstractControl {
-  public controls: AbstractControl[] = [];
-  public validatorOrOpts: ValidatorOptions;
-  constructor(controls: AbstractControl[] = [], validatorOrOpts?: ValidatorFn | ValidatorOptions, asyncValidator?: ValidatorFn) {
+export class FormArray<TControl extends AbstractControl = AbstractControl>
+  extends AbstractControl<FormArrayValue<TControl>, FormArrayRawValue<TControl>> {
+  public controls: TControl[] = [];
+  public validatorOrOpts?: ValidatorFn | ValidatorFn[] | ValidatorOptions | null;
+  constructor(
+    controls: TControl[] = [],
+    validatorOrOpts?: ValidatorFn | ValidatorFn[] | ValidatorOptions | null,
+    asyncValidator?: AsyncValidatorFn | AsyncValidatorFn[] | null
+  ) {
     super(
       coerceToValidator(validatorOrOpts),
       coerceToAsyncValidator(asyncValidator, validatorOrOpts)
     );
+    this.controls = controls;
     this.validatorOrOpts = validatorOrOpts;
     this._initObservables();
     this._setUpdateStrategy(validatorOrOpts);
+    this._setControlOptions(validatorOrOpts);
     this._setUpControls();
     this.updateValueAndValidity({
       onlySelf: true,
@@ -32,13 +46,16 @@ export class FormArray extends AbstractControl {
     if (!this._syncPendingControls()) {
       this.updateValueAndValidity();
     }
+    if (this.focusInvalidOnSubmit && this.invalid) {
+      this.focusFirstInvalid();
+    }
   };
   /**
    * Get the `AbstractControl` at the given `index` in the array.
    * @param {Number} index
    * @return {AbstractControl}
    */
-  public at(index: number): AbstractControl {
+  public at(index: number): TControl {
     return this.controls[index];
   }
 
@@ -47,7 +64,7 @@ export class FormArray extends AbstractControl {
    * @param {AbstractControl} control
    * @return {Void}
    */
-  public push(control: AbstractControl): void {
+  public push(control: TControl): void {
     this.controls.push(control);
     this._registerControl(control);
     this.updateValueAndValidity();
@@ -59,7 +76,7 @@ export class FormArray extends AbstractControl {
    * @param {Number} index
    * @param {AbstractControl} control
    */
-  public insert(index: number, control: AbstractControl): void {
+  public insert(index: number, control: TControl): void {
     this.controls.splice(index, 0, control);
     this._registerControl(control);
     this.updateValueAndValidity();
@@ -85,7 +102,7 @@ export class FormArray extends AbstractControl {
    * @param {Number} index
    * @param {AbstractControl} control
    */
-  public setControl(index: number, control: AbstractControl): void {
+  public setControl(index: number, control: TControl): void {
     if (this.controls[index])
       this.controls[index]._registerOnCollectionChange(() => {
         // empty
@@ -101,6 +118,20 @@ export class FormArray extends AbstractControl {
     this._onCollectionChange();
   }
 
+  /**
+   * Move the control at `fromIndex` to `toIndex` in the array.
+   * @param {Number} fromIndex
+   * @param {Number} toIndex
+   */
+  public move(fromIndex: number, toIndex: number): void {
+    const control = this.controls[fromIndex];
+    if (!control) return;
+    this.controls.splice(fromIndex, 1);
+    this.controls.splice(toIndex, 0, control);
+    this.updateValueAndValidity();
+    this._onCollectionChange();
+  }
+
   /**
    * Length of the control array.
    * @return {Number}
@@ -115,7 +146,7 @@ export class FormArray extends AbstractControl {
    * @param {any[]} value
    * @param {{onlySelf?: boolean, emitEvent?: boolean}} options
    */
-  public setValue(value: any[], options?: UpdateOptions): void {
+  public setValue(value: FormArrayRawValue<TControl>, options?: UpdateOptions): void {
     this._checkAllValuesPresent(value);
     value.forEach((newValue, index) => {
       this._throwIfControlMissing(index);
@@ -124,6 +155,9 @@ export class FormArray extends AbstractControl {
         emitEvent: options?.emitEvent || false
       });
     });
+    if (this.dirtyCheck === "value") {
+      this._updatePristine({ onlySelf: options?.onlySelf });
+    }
     this.updateValueAndValidity(options);
   }
 
@@ -134,7 +168,7 @@ export class FormArray extends AbstractControl {
    * @param {any[]} value
    * @param {{onlySelf?: boolean, emitEvent?: boolean}} options
    */
-  public patchValue(value: any[], options?: UpdateOptions): void {
+  public patchValue(value: Array<DeepPartial<FormArrayRawValue<TControl>[number]>>, options?: UpdateOptions): void {
     value.forEach((newValue, index) => {
       if (this.at(index)) {
         this.at(index).patchValue(newValue, {
@@ -143,6 +177,9 @@ export class FormArray extends AbstractControl {
         });
       }
     });
+    if (this.dirtyCheck === "value") {
+      this._updatePristine({ onlySelf: options?.onlySelf });
+    }
     this.updateValueAndValidity(options);
   }
 
@@ -151,7 +188,7 @@ export class FormArray extends AbstractControl {
    * @param {any[]} value
    * @param {{onlySelf?: boolean, emitEvent?: boolean}} options
    */
-  public reset(value = [], options: UpdateOptions = {}): void {
+  public reset(value: any[] = [], options: UpdateOptions = {}): void {
     this._forEachChild((control: AbstractControl, index: number) => {
       control.reset(value[index], {
         onlySelf: true,
@@ -171,12 +208,25 @@ export class FormArray extends AbstractControl {
    * Otherwise, the `value` property is the best way to get the value of the array.
    * @return {any[]}
    */
-  public getRawValue(): any[] {
-    return this.controls.map((control: AbstractControl) => {
-      return control instanceof FormControl
-        ? control.value
-        : control.getRawValue();
-    });
+  public getRawValue(): FormArrayRawValue<TControl> {
+    return this.controls.map((control: AbstractControl) => control.getRawValue());
+  }
+
+  public _getChild(index: string | number): AbstractControl | null {
+    return this.at(Number(index)) || null;
+  }
+
+  public _getChildName(control: AbstractControl): number | null {
+    const index = this.controls.indexOf(control as TControl);
+    return index > -1 ? index : null;
+  }
+
+  public _syncPendingControls(): boolean {
+    const subtreeUpdated = this.controls.reduce((updated: boolean, child) => {
+      return child._syncPendingControls() ? true : updated;
+    }, false);
+    if (subtreeUpdated) this.updateValueAndValidity();
+    return subtreeUpdated;
   }
 
   protected _onCollectionChange = () => {
@@ -206,14 +256,6 @@ export class FormArray extends AbstractControl {
     return this.controls.length > 0 || this.disabled;
   }
 
-  private _syncPendingControls(): boolean {
-    const subtreeUpdated = this.controls.reduce((updated, child) => {
-      return child._syncPendingControls() ? true : updated;
-    }, false);
-    if (subtreeUpdated) this.updateValueAndValidity();
-    return subtreeUpdated;
-  }
-
   private _throwIfControlMissing(index: number): void {
     if (!this.controls.length) {
       throw new Error(`
@@ -1,8 +1,23 @@
-import { Subject } from "rxjs";
+import { Subject, Subscription, timer } from "rxjs";
 import { AbstractControl } from "./AbstractControl";
-import { coerceToAsyncValidator, coerceToValidator, getControlValue } from "./controlUtils";
-import { UpdateOptions, ValidatorFn } from "./types";
-import { getHandler } from "./utils";
+import { coerceToAsyncValidator, coerceToValidator, getControlValue, isOptionsObj } from "./controlUtils";
+import { getHandler } from "./inputAdapters";
+import { applyMask, updateMaskedInput } from "./masks";
+import {
+  AsyncValidatorFn,
+  FocusableElement,
+  FocusOptions,
+  FormState,
+  HandlerOptions,
+  Mask,
+  SanitizerFn,
+  SetValueOptions,
+  UpdateOptions,
+  ValidationErrors,
+  ValidatorFn,
+  ValidatorOptions
+} from "./types";
+import { deepEqual, isEvent } from "./utils";
 
 /**
  * This is the base class for `FormControl`, `FormGroup`, and
@@ -13,24 +28,54 @@ import { getHandler } from "./utils";
  * that are shared between all sub-classes, like `value`, `valid`, and `dirty`. It shouldn't be
  * instantiated directly.
  */
-export class FormControl extends AbstractControl {
+export class FormControl<T = any> extends AbstractControl<T> {
   public active: boolean;
   public onValueChanges: Subject<any>;
   public onBlurChanges: Subject<any>;
+  /**
+   * Converts the value of the input to the value of the control.
+   */
+  public parse: ((viewValue: any) => T) | null = null;
+  /**
+   * Converts the value of the control to the value displayed by the input.
+   */
+  public format: ((value: T) => any) | null = null;
+  public mask: Mask | null = null;
+  public maskStorage: "masked" | "raw" = "masked";
+  public sanitizers: SanitizerFn[] = [];
   protected _pendingChange: boolean = true;
   protected _pendingDirty: boolean = false;
   protected _pendingTouched: boolean = false;
   protected _pendingValue: any = null;
-  protected validatorsOrOpts: ValidatorFn | ValidatorFn[] | UpdateOptions;
-  constructor(formState, validatorOrOpts: ValidatorFn | UpdateOptions, asyncValidator?: ValidatorFn | ValidatorFn[]) {
+  protected _viewValue: any = null;
+  protected _parseError: ValidationErrors | null = null;
+  protected formState: T | FormState<T>;
+  protected validatorsOrOpts?: ValidatorFn | ValidatorFn[] | ValidatorOptions | null;
+  private _element: FocusableElement | null = null;
+  private _debounceSubscription: Subscription | null = null;
+  private _initialValue: T;
+  constructor(
+    formState: T | FormState<T>,
+    validatorOrOpts?: ValidatorFn | ValidatorFn[] | ValidatorOptions | null,
+    asyncValidator?: AsyncValidatorFn | AsyncValidatorFn[] | null
+  ) {
     super(
       coerceToValidator(validatorOrOpts),
       coerceToAsyncValidator(asyncValidator, validatorOrOpts)
     );
     this.formState = formState;
     this.validatorsOrOpts = validatorOrOpts;
+    if (isOptionsObj(validatorOrOpts)) {
+      this.parse = validatorOrOpts.parse || null;
+      this.format = validatorOrOpts.format || null;
+      this.mask = validatorOrOpts.mask || null;
+      this.maskStorage = validatorOrOpts.maskStorage || "masked";
+      this.sanitizers = validatorOrOpts.sanitizers ? ([] as SanitizerFn[]).concat(validatorOrOpts.sanitizers) : [];
+    }
     this._applyFormState(formState);
+    this._initialValue = this.value;
     this._setUpdateStrategy(validatorOrOpts);
+    this._setControlOptions(validatorOrOpts);
     /**
      * A control is `active` when its focused.
      */
@@ -50,9 +95,21 @@ export class FormControl extends AbstractControl {
    * @param {any} event
    * @return {void}
    */
-   public onChange = (event: Event) => {
-    const value = getControlValue(event);
+   public onChange = (event: any) => {
+    let viewValue = getControlValue(event);
+    let inputValue = viewValue;
+    if (this.mask && (typeof viewValue === "string" || typeof viewValue === "number")) {
+      const { masked, raw } = applyMask(this.mask, String(viewValue));
+      if (isEvent(event)) {
+        updateMaskedInput(event.target, masked);
+      }
+      viewValue = masked;
+      inputValue = this.maskStorage === "raw" ? raw : masked;
+    }
+    // A value which can't be parsed is stored as `null`, the parse error invalidates the control
+    const value = this._sanitize(this._parseViewValue(inputValue) as T);
     const isDirty = value !== this.value;
+    this._viewValue = viewValue;
     if (this.updateOn !== "change") {
       this._pendingValue = value;
       this._pendingChange = true;
@@ -60,11 +117,14 @@ export class FormControl extends AbstractControl {
         this._pendingDirty = true;
       }
       this.stateChanges.next(null);
+      if (this.updateOn === "debounce") {
+        this._scheduleCommit();
+      }
     } else {
       if (isDirty && !this.dirty) {
         this.markAsDirty();
       }
-      this.setValue(value);
+      this.setValue(value, { emitModelToViewChange: false });
     }
     this.onValueChanges.next(value);
   };
@@ -73,18 +133,23 @@ export class FormControl extends AbstractControl {
    */
   public onBlur = () => {
     this.active = false;
-    if (this.updateOn === "blur") {
+    const viewChanged = this._formatViewValue();
+    if (this.updateOn === "blur" || this.updateOn === "debounce") {
       if (this._pendingDirty && !this.dirty) {
         this.markAsDirty();
       }
       if (!this.touched) {
         this.markAsTouched();
       }
-      this.setValue(this._pendingValue);
+      this._pendingChange = false;
+      this.setValue(this._pendingValue, { emitModelToViewChange: false });
     } else if (this.updateOn === "submit") {
       this._pendingTouched = true;
+      if (viewChanged) {
+        this.stateChanges.next(null);
+      }
     } else {
-      const emitChangeToView = !this.touched;
+      const emitChangeToView = !this.touched || viewChanged;
       if (!this.touched) {
         this.markAsTouched();
       }
@@ -101,12 +166,48 @@ export class FormControl extends AbstractControl {
     this.active = true;
     this.stateChanges.next(null);
   };
+  /**
+   * Registers the element bound to the control, it's used as a `ref` callback.
+   * @param {FocusableElement|null} element
+   */
+  public registerElement = (element: FocusableElement | null) => {
+    this._element = element;
+  };
   /**
    * Returns the required props to bind an input element.
    * @param {string} inputType
    * @param {any} value
+   * @param {{ref: Boolean, hint: Boolean}} options
    */
-  public handler = (inputType: any, value: any) => getHandler(inputType, value, this);
+  public handler = (inputType: any, value?: any, options: HandlerOptions = {}) => {
+    const props = getHandler(inputType, value, this, options);
+    if (options.ref) {
+      props.ref = this.registerElement;
+    }
+    return props;
+  };
+  /**
+   * The latest value set through the input, it's committed to `value` on `blur` or `submit`
+   * according to the update strategy.
+   * @return {any}
+   */
+  public get pendingValue(): any {
+    return this._pendingValue;
+  }
+  /**
+   * The value displayed by the input, formatted with `format`.
+   * @return {any}
+   */
+  public get viewValue(): any {
+    return this._viewValue;
+  }
+  /**
+   * The value restored by `reset()`, see `setInitialValue`.
+   * @return {T}
+   */
+  public get initialValue(): T {
+    return this._initialValue;
+  }
   /**
    * A control is `inactive` when its not focused.
    * @return {Boolean}
@@ -115,11 +216,17 @@ export class FormControl extends AbstractControl {
     return !this.active;
   }
   /**
-   * @param {{onlySelf: Boolean, emitEvent: Boolean}} options
+   * @param {{onlySelf: Boolean, emitEvent: Boolean, emitModelToViewChange: Boolean}} options
    * @return {void}
    */
-  public setValue(value: any, options: UpdateOptions = {}): void {
-    this.value = this._pendingValue = value;
+  public setValue(value: T, options: SetValueOptions = {}): void {
+    this._cancelScheduledCommit();
+    this.value = this._pendingValue = this._sanitize(value);
+    if (options.emitModelToViewChange !== false) {
+      this._parseError = null;
+      this._viewValue = this._formatValue(this.value);
+    }
+    this._updateDirtyFromValue(options);
     this.updateValueAndValidity(options);
   }
   /**
@@ -132,38 +239,114 @@ export class FormControl extends AbstractControl {
    * @param {{onlySelf: Boolean, emitEvent: Boolean}} options
    * @return {void}
    */
-  public patchValue(value: any, options: UpdateOptions = {}): void {
+  public patchValue(value: T, options: UpdateOptions = {}): void {
     this.setValue(value, options);
   }
 
   /**
+   * Resets the control to the given value, or to its initial value when no value is given.
+   * The initial value is kept, use `setInitialValue` to change it. The control is pristine
+   * after a reset, even with the `value` dirty check.
+   * @param {any} formState
    * @param {{onlySelf: Boolean, emitEvent: Boolean}} options
    * @return {void}
    */
-  public reset(formState = null, options: UpdateOptions = {}): void {
-    this._applyFormState(formState);
+  public reset(formState?: T | FormState<T> | null, options: UpdateOptions = {}): void {
+    this._cancelScheduledCommit();
+    this._applyFormState(formState === undefined ? this._initialValue : formState);
     this.markAsPristine(options);
     this.markAsUntouched(options);
-    this.setValue(this.value, options);
+    this.updateValueAndValidity(options);
     this._pendingChange = false;
   }
+  /**
+   * Focuses the registered element.
+   * @param {{scroll: Boolean}} opts
+   * @return {Boolean} `true` if an element has been focused
+   */
+  public focus(opts: FocusOptions = {}): boolean {
+    const element = this._element;
+    if (!element) {
+      return false;
+    }
+    if (opts.scroll && element.scrollIntoView) {
+      element.scrollIntoView({ block: "center" });
+    }
+    element.focus();
+    return true;
+  }
+  /**
+   * Focuses and scrolls to the element of the control if the control is invalid.
+   * @return {Boolean} `true` if the element has been focused
+   */
+  public focusFirstInvalid(): boolean {
+    return this.invalid && this.focus({ scroll: true });
+  }
+  /**
+   * Sets the value restored by `reset()` and, with the `value` dirty check, compared with
+   * the current value. The current value is used when no value is given.
+   * @param {T} value
+   * @return {void}
+   */
+  public setInitialValue(value?: T): void {
+    this._initialValue = value === undefined ? this.value : value;
+    this._updateDirtyFromValue({ emitEvent: true });
+  }
+  /**
+   * Cancels the pending commit of a control updated on `debounce`.
+   * @return {void}
+   */
+  public destroy(): void {
+    this._cancelScheduledCommit();
+    super.destroy();
+  }
+  public _syncPendingControls(): boolean {
+    if (this.updateOn === "debounce" && this._pendingChange) {
+      this._commitPendingValue();
+      return true;
+    }
+    if (this.updateOn === "submit") {
+      if (this._pendingDirty) this.markAsDirty();
+      if (this._pendingTouched) this.markAsTouched();
+      if (this._pendingChange) {
+        this.setValue(this._pendingValue, { emitModelToViewChange: false });
+        this._pendingChange = false;
+        return true;
+      }
+    }
+    return false;
+  }
+  /**
+   * A value which can't be parsed is reported by a `parse` error, the other validators
+   * don't run until the input holds a valid value.
+   * @return {Object|null}
+   */
+  protected _runValidator(): ValidationErrors | null {
+    return this._parseError || super._runValidator();
+  }
+  protected _forEachChild(): void {
+    // empty
+  }
+  protected _updateValue(): void {
+    // empty
+  }
   /**
    * @param {Function} condition
    * @return {Boolean}
    */
-  private _anyControls(condition: any): boolean {
+  protected _anyControls(condition: (c: AbstractControl) => boolean): boolean {
     return false
   }
   /**
    * @return {Boolean}
    */
-  private _allControlsDisabled(): boolean {
+  protected _allControlsDisabled(): boolean {
     return this.disabled;
   }
   /**
    * @return {Boolean}
    */
-  private _isBoxedValue(formState): boolean {
+  private _isBoxedValue(formState: T | FormState<T> | null): formState is FormState<T> {
     return (
       typeof formState === "object" &&
       formState !== null &&
@@ -172,9 +355,93 @@ export class FormControl extends AbstractControl {
       "disabled" in formState
     );
   }
-  private _applyFormState(formState): void {
+  /**
+   * @param {any} viewValue
+   * @return {T|null} the parsed value, `null` if the value can't be parsed
+   */
+  private _parseViewValue(viewValue: any): T | null {
+    this._parseError = null;
+    if (!this.parse) {
+      return viewValue;
+    }
+    try {
+      return this.parse(viewValue);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this._parseError = { parse: { viewValue, message } };
+      return null;
+    }
+  }
+  /**
+   * With the `value` dirty check, the control is dirty while its value differs from the initial one.
+   * @param {{onlySelf: Boolean, emitEvent: Boolean}} options
+   * @return {void}
+   */
+  private _updateDirtyFromValue(options: UpdateOptions): void {
+    if (this.dirtyCheck !== "value") {
+      return;
+    }
+    const opts = { onlySelf: options.onlySelf, emitEvent: options.emitEvent };
+    if (deepEqual(this.value, this._initialValue)) {
+      this.markAsPristine(opts);
+    } else {
+      this.markAsDirty(opts);
+    }
+  }
+  /**
+   * Commits the pending value once the user stops typing for `debounceTime` ms.
+   * @return {void}
+   */
+  private _scheduleCommit(): void {
+    this._cancelScheduledCommit();
+    this._debounceSubscription = timer(this.debounceTime).subscribe(() => this._commitPendingValue());
+  }
+  private _cancelScheduledCommit(): void {
+    if (this._debounceSubscription) {
+      this._debounceSubscription.unsubscribe();
+      this._debounceSubscription = null;
+    }
+  }
+  private _commitPendingValue(): void {
+    if (this._pendingDirty && !this.dirty) {
+      this.markAsDirty();
+    }
+    this._pendingChange = false;
+    this.setValue(this._pendingValue, { emitModelToViewChange: false });
+  }
+  /**
+   * @param {T} value
+   * @return {T}
+   */
+  private _sanitize(value: T): T {
+    return this.sanitizers.reduce((sanitized, sanitizer) => sanitizer(sanitized), value);
+  }
+  /**
+   * @param {T} value
+   * @return {any}
+   */
+  private _formatValue(value: T): any {
+    const viewValue = this.format && value != null ? this.format(value) : value;
+    return this.mask && viewValue != null && viewValue !== ""
+      ? applyMask(this.mask, String(viewValue)).masked
+      : viewValue;
+  }
+  /**
+   * Formats the view value once the user leaves the input, unless it can't be parsed.
+   * @return {Boolean} `true` if the view value has changed
+   */
+  private _formatViewValue(): boolean {
+    if (this._parseError) {
+      return false;
+    }
+    const viewValue = this._formatValue(this._pendingValue);
+    const changed = viewValue !== this._viewValue;
+    this._viewValue = viewValue;
+    return changed;
+  }
+  private _applyFormState(formState: T | FormState<T> | null): void {
     if (this._isBoxedValue(formState)) {
-      this.value = this._pendingValue = formState.value;
+      this.value = this._pendingValue = this._sanitize(formState.value);
       if (formState.disabled) {
         this.disable({
           onlySelf: true,
@@ -187,19 +454,9 @@ export class FormControl extends AbstractControl {
         });
       }
     } else {
-      this.value = this._pendingValue = formState;
-    }
-  }
-  private _syncPendingControls(): boolean {
-    if (this.updateOn === "submit") {
-      if (this._pendingDirty) this.markAsDirty();
-      if (this._pendingTouched) this.markAsTouched();
-      if (this._pendingChange) {
-        this.setValue(this._pendingValue);
-        this._pendingChange = false;
-        return true;
-      }
+      this.value = this._pendingValue = this._sanitize(formState as T);
     }
-    return false;
+    this._parseError = null;
+    this._viewValue = this._formatValue(this.value);
   }
 }
@@ -0,0 +1,100 @@
+import React, { Component } from 'react'
+import { AbstractControl } from "./AbstractControl";
+import FieldArray from './FieldArray'
+import FieldControl from './FieldControl'
+import FieldGroup from './FieldGroup'
+import { buildForm, IFieldConfig } from './formBuilder'
+import { FormArray } from "./FormArray";
+import { FormControl } from "./FormControl";
+import { FormGroup } from "./FormGroup";
+import { mapConfigToFieldProps } from './utils';
+
+interface IFormGeneratorProps {
+  fieldConfig: IFieldConfig,
+  onMount?: (form: FormGroup) => void,
+  onUnmount?: () => void
+}
+
+/**
+ * Builds a `FormGroup` from a field config and renders a `FieldControl` for
+ * every control of the tree, the `render` of a group or an array config receives
+ * the rendered children of the node.
+ *
+ * The root control is passed to the `onMount` callback and is also available
+ * as the `form` property through a ref.
+ */
+export default class FormGenerator extends Component<IFormGeneratorProps> {
+  public form: FormGroup
+  constructor(props: IFormGeneratorProps) {
+    super(props)
+    this.form = buildForm(props.fieldConfig)
+  }
+  public componentDidMount(): void {
+    const { onMount } = this.props
+    if (onMount) {
+      onMount(this.form)
+    }
+  }
+  public componentDidUpdate(prevProps: IFormGeneratorProps): void {
+    const { fieldConfig, onMount } = this.props
+    if (fieldConfig !== prevProps.fieldConfig) {
+      this.form = buildForm(fieldConfig)
+      if (onMount) {
+        onMount(this.form)
+      }
+      this.forceUpdate()
+    }
+  }
+  public componentWillUnmount(): void {
+    const { onUnmount } = this.props
+    if (onUnmount) {
+      onUnmount()
+    }
+  }
+  public render(): JSX.Element {
+    return this.renderConfig(this.props.fieldConfig, this.form, 'root')
+  }
+  /**
+   * @param {IFieldConfig} config
+   * @param {AbstractControl} control
+   * @param {String|Number} key
+   * @return {JSX.Element}
+   */
+  private renderConfig(config: IFieldConfig, control: AbstractControl, key: string | number): JSX.Element {
+    const { controls, render, strict } = config
+    if (Array.isArray(controls) && control instanceof FormArray) {
+      const renderChildren = () => controls.map((childConfig, index) =>
+        this.renderConfig(childConfig, control.at(index), index)
+      )
+      return render
+        ? React.createElement(FieldArray, {
+          key,
+          control,
+          strict,
+          render: (array: FormArray) => render(array, renderChildren())
+        })
+        : React.createElement(React.Fragment, { key }, renderChildren())
+    }
+    if (controls && !Array.isArray(controls) && control instanceof FormGroup) {
+      const renderChildren = () => Object.keys(controls).map(name =>
+        this.renderConfig(controls[name], control.controls[name], name)
+      )
+      return render
+        ? React.createElement(FieldGroup, {
+          key,
+          control,
+          strict,
+          render: (group: FormGroup) => render(group, renderChildren())
+        })
+        : React.createElement(React.Fragment, { key }, renderChildren())
+    }
+    if (control instanceof FormControl) {
+      return React.createElement(FieldControl, {
+        ...mapConfigToFieldProps(config),
+        key,
+        control
+      })
+    }
+    return React.createElement(React.Fragment, { key })
+  }
+}
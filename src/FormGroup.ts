@@ -1,14 +1,26 @@
 import { AbstractControl } from "./AbstractControl";
 import { coerceToAsyncValidator, coerceToValidator } from "./controlUtils";
-import { FormControl } from "./FormControl";
-import { UpdateOptions, ValidatorFn, ValidatorOptions } from "./types";
+import {
+  AsyncValidatorFn,
+  DeepPartial,
+  FormGroupRawValue,
+  FormGroupValue,
+  UpdateOptions,
+  ValidatorFn,
+  ValidatorOptions
+} from "./types";
 
-export class FormGroup extends AbstractControl {
-  public controls: { [key: string]: AbstractControl } = {};
+type ControlMap = { [key: string]: AbstractControl };
+
+export class FormGroup<TControls extends { [K in keyof TControls]: AbstractControl } = ControlMap>
+  extends AbstractControl<FormGroupValue<TControls>, FormGroupRawValue<TControls>> {
+  public controls: TControls;
+  public validatorOrOpts?: ValidatorFn | ValidatorFn[] | ValidatorOptions | null;
+  public handleSubmit: (e: Event) => void;
   constructor(
-    controls: { [key: string]: AbstractControl },
-    validatorOrOpts?: ValidatorFn | ValidatorFn[] | ValidatorOptions,
-    asyncValidator?: ValidatorFn | ValidatorFn[]
+    controls: TControls,
+    validatorOrOpts?: ValidatorFn | ValidatorFn[] | ValidatorOptions | null,
+    asyncValidator?: AsyncValidatorFn | AsyncValidatorFn[] | null
   ) {
     super(
       coerceToValidator(validatorOrOpts),
@@ -18,6 +30,7 @@ export class FormGroup extends AbstractControl {
     this.validatorOrOpts = validatorOrOpts;
     this._initObservables();
     this._setUpdateStrategy(validatorOrOpts);
+    this._setControlOptions(validatorOrOpts);
     this._setUpControls();
     this.updateValueAndValidity({
       onlySelf: true,
@@ -35,6 +48,9 @@ export class FormGroup extends AbstractControl {
       if (!this._syncPendingControls()) {
         this.updateValueAndValidity();
       }
+      if (this.focusInvalidOnSubmit && this.invalid) {
+        this.focusFirstInvalid();
+      }
     };
   }
   /**
@@ -48,7 +64,7 @@ export class FormGroup extends AbstractControl {
   public contains(controlName: string): boolean {
     return (
       this.controls.hasOwnProperty(controlName) &&
-      this.controls[controlName].enabled
+      this._controlMap[controlName].enabled
     );
   }
   /**
@@ -60,7 +76,7 @@ export class FormGroup extends AbstractControl {
    * @param {AbstractControl} control
    * @return {AbstractControl}
    */
-  public registerControl(name: string, control: AbstractControl): AbstractControl {
+  public registerControl<K extends string & keyof TControls>(name: K, control: TControls[K]): TControls[K] {
     if (this.controls[name]) return this.controls[name];
     this.controls[name] = control;
     control.setParent(this);
@@ -74,7 +90,7 @@ export class FormGroup extends AbstractControl {
    * @param {AbstractControl} control
    * @return {void}
    */
-  public addControl(name: string, control: AbstractControl): void {
+  public addControl<K extends string & keyof TControls>(name: K, control: TControls[K]): void {
     this.registerControl(name, control);
     this.updateValueAndValidity();
     this._onCollectionChange();
@@ -85,7 +101,7 @@ export class FormGroup extends AbstractControl {
    * @param {String} name
    * @return {void}
    */
-  public removeControl(name: string): void {
+  public removeControl(name: string & keyof TControls): void {
     if (this.controls[name])
       this.controls[name]._registerOnCollectionChange(() => {
         // empty
@@ -101,7 +117,7 @@ export class FormGroup extends AbstractControl {
    * @param {AbstractControl} control
    * @return {void}
    */
-  public setControl(name: string, control: AbstractControl): void {
+  public setControl<K extends string & keyof TControls>(name: K, control: TControls[K]): void {
     if (this.controls[name])
       this.controls[name]._registerOnCollectionChange(() => {
         // empty
@@ -126,15 +142,18 @@ export class FormGroup extends AbstractControl {
    * @param {{onlySelf: boolean, emitEvent: boolean}} options
    * @return {void}
    */
-  public setValue(value: any, options: UpdateOptions = {}): void {
+  public setValue(value: FormGroupRawValue<TControls>, options: UpdateOptions = {}): void {
     this._checkAllValuesPresent(value);
     Object.keys(value).forEach(name => {
       this._throwIfControlMissing(name);
-      this.controls[name].setValue(value[name], {
+      this._controlMap[name].setValue((value as { [key: string]: any })[name], {
         onlySelf: true,
         emitEvent: options.emitEvent
       });
     });
+    if (this.dirtyCheck === "value") {
+      this._updatePristine(options);
+    }
     this.updateValueAndValidity(options);
   }
   /**
@@ -143,9 +162,12 @@ export class FormGroup extends AbstractControl {
    * @param {{onlySelf: boolean, emitEvent: boolean}} options
    * @return {void}
    */
-  public reset(value: {[key: string]: any} = {}, options: UpdateOptions = {}): void {
+  public reset(
+    value: DeepPartial<FormGroupRawValue<TControls>> = {} as DeepPartial<FormGroupRawValue<TControls>>,
+    options: UpdateOptions = {}
+  ): void {
     this._forEachChild((control: AbstractControl, name: string) => {
-      control.reset(value[name], {
+      control.reset((value as { [key: string]: any })[name], {
         onlySelf: true,
         emitEvent: options.emitEvent
       });
@@ -174,15 +196,18 @@ export class FormGroup extends AbstractControl {
    * @param {{onlySelf: boolean, emitEvent: boolean}} options
    * @return {void}
    */
-  public patchValue(value: any, options: UpdateOptions = {}): void {
+  public patchValue(value: DeepPartial<FormGroupRawValue<TControls>>, options: UpdateOptions = {}): void {
     Object.keys(value).forEach(name => {
-      if (this.controls[name]) {
-        this.controls[name].patchValue(value[name], {
+      if (this._controlMap[name]) {
+        this._controlMap[name].patchValue((value as { [key: string]: any })[name], {
           onlySelf: true,
           emitEvent: options.emitEvent
         });
       }
     });
+    if (this.dirtyCheck === "value") {
+      this._updatePristine(options);
+    }
     this.updateValueAndValidity(options);
   }
   /**
@@ -191,13 +216,26 @@ export class FormGroup extends AbstractControl {
    * If you'd like to include all values regardless of disabled status, use this method.
    * Otherwise, the `value` property is the best way to get the value of the group.
    */
-  public getRawValue(): { [key: string]: any } {
+  public getRawValue(): FormGroupRawValue<TControls> {
     return this._reduceChildren({}, (acc, control: AbstractControl, name: string) => {
-      acc[name] =
-        control instanceof FormControl ? control.value : control.getRawValue();
+      acc[name] = control.getRawValue();
       return acc;
     });
   }
+  public _getChild(name: string | number): AbstractControl | null {
+    return this._controlMap[name] || null;
+  }
+  public _getChildName(control: AbstractControl): string | null {
+    const names = Object.keys(this.controls).filter(name => this._controlMap[name] === control);
+    return names.length ? names[0] : null;
+  }
+  public _syncPendingControls(): boolean {
+    const subtreeUpdated = this._reduceChildren(false, (updated, child) => {
+      return child._syncPendingControls() ? true : updated;
+    });
+    if (subtreeUpdated) this.updateValueAndValidity();
+    return subtreeUpdated;
+  }
   protected _onCollectionChange = (): void => {
     // empty
   }
@@ -209,14 +247,14 @@ export class FormGroup extends AbstractControl {
    * @return {void}
    */
   protected _forEachChild(callback: (c: AbstractControl, name: string) => void): void {
-    Object.keys(this.controls).forEach(k => callback(this.controls[k], k));
+    Object.keys(this.controls).forEach(k => callback(this._controlMap[k], k));
   }
   /**
    * @return {Boolean}
    */
    protected _allControlsDisabled(): boolean {
     for (const controlName of Object.keys(this.controls)) {
-      if (this.controls[controlName].enabled) {
+      if (this._controlMap[controlName].enabled) {
         return false;
       }
     }
@@ -233,18 +271,16 @@ export class FormGroup extends AbstractControl {
     });
     return res;
   }
-  private _reduceValue(): void {
-    return this._reduceChildren({}, (acc, control: AbstractControl, name: string) => {
-      if (control.enabled || this.disabled) {
-        acc[name] = control.value;
-      }
-      return acc;
-    });
+  /**
+   * The controls indexed by name, regardless of the declared shape of the group.
+   */
+  private get _controlMap(): ControlMap {
+    return this.controls as ControlMap;
   }
-  private _reduceErrors(): any {
+  private _reduceValue(): any {
     return this._reduceChildren({}, (acc, control: AbstractControl, name: string) => {
       if (control.enabled || this.disabled) {
-        acc[name] = control.errors;
+        acc[name] = control.value;
       }
       return acc;
     });
@@ -252,7 +288,7 @@ export class FormGroup extends AbstractControl {
   /**
    * @param {Function} fn
    */
-  private _reduceChildren(initValue: any, fn: (res: any, control: AbstractControl, name?: string) => void): any {
+  private _reduceChildren(initValue: any, fn: (res: any, control: AbstractControl, name: string) => any): any {
     let res = initValue;
     this._forEachChild((control, name) => {
       res = fn(res, control, name);
@@ -280,15 +316,8 @@ export class FormGroup extends AbstractControl {
         There are no form controls registered with this group yet.
       `);
     }
-    if (!this.controls[name]) {
+    if (!this._controlMap[name]) {
       throw new Error(`Cannot find form control with name: ${name}.`);
     }
   }
-  private _syncPendingControls(): boolean {
-    let subtreeUpdated = this._reduceChildren(false, (updated, child) => {
-      return child._syncPendingControls() ? true : updated;
-    });
-    if (subtreeUpdated) this.updateValueAndValidity();
-    return subtreeUpdated;
-  }
 }
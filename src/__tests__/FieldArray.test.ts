@@ -0,0 +1,62 @@
+import React from "react";
+import TestRenderer, { act } from "react-test-renderer";
+import FieldArray, { IFieldArrayHelpers } from "../FieldArray";
+import FieldControl from "../FieldControl";
+import { FormArray } from "../FormArray";
+import { FormControl } from "../FormControl";
+
+const renderItems = (items: FormArray, onRender: (helpers: IFieldArrayHelpers) => void) =>
+  TestRenderer.create(React.createElement(FieldArray, {
+    control: items,
+    render: (control: FormArray, helpers: IFieldArrayHelpers) => {
+      onRender(helpers);
+      return React.createElement(
+        React.Fragment,
+        null,
+        control.controls.map((item, index) => React.createElement(FieldControl, {
+          key: helpers.keys[index],
+          index,
+          render: (field: FormControl) => React.createElement("span", null, field.value)
+        }))
+      );
+    }
+  }));
+
+describe("FieldArray", () => {
+  it("attaches the fields to the existing items of the array", () => {
+    const items = new FormArray([new FormControl("a"), new FormControl("b")]);
+    let renderer!: TestRenderer.ReactTestRenderer;
+    act(() => {
+      renderer = renderItems(items, () => undefined);
+    });
+    expect(items.length).toBe(2);
+    expect(items.value).toEqual(["a", "b"]);
+    expect(renderer.root.findAllByType("span").map(span => span.children[0])).toEqual(["a", "b"]);
+  });
+
+  it("adds a single item with the helpers", () => {
+    const items = new FormArray([new FormControl("a")]);
+    let helpers!: IFieldArrayHelpers;
+    act(() => {
+      renderItems(items, current => {
+        helpers = current;
+      });
+    });
+    act(() => {
+      helpers.push(new FormControl("b"));
+    });
+    act(() => {
+      helpers.insert(0, new FormControl("c"));
+    });
+    expect(items.length).toBe(3);
+    expect(items.value).toEqual(["c", "a", "b"]);
+  });
+
+  it("inserts a control when no item exists at the index", () => {
+    const items = new FormArray([]);
+    act(() => {
+      TestRenderer.create(React.createElement(FieldControl, { parent: items, index: 0, formState: "x" }));
+    });
+    expect(items.value).toEqual(["x"]);
+  });
+});
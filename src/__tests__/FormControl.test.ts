@@ -0,0 +1,293 @@
+import { FormControl } from "../FormControl";
+import { FormGroup } from "../FormGroup";
+import { getMaskedCaret, updateMaskedInput } from "../masks";
+import Sanitizers from "../sanitizers";
+import Validators from "../validators";
+
+const changeEvent = (value: any, type: string = "text") => ({
+  target: { value, type },
+  stopPropagation: () => undefined,
+  preventDefault: () => undefined
+});
+
+describe("parse and format", () => {
+  const toNumber = (viewValue: string) => {
+    const value = Number(viewValue.replace(/,/g, ""));
+    if (isNaN(value)) {
+      throw new Error("Not a number");
+    }
+    return value;
+  };
+  const toAmount = (value: number) => value.toLocaleString("en-US");
+
+  it("keeps the view value apart from the parsed value", () => {
+    const control = new FormControl<number | null>(null, { parse: toNumber, format: toAmount });
+    control.onChange(changeEvent("1,500"));
+    expect(control.value).toBe(1500);
+    expect(control.viewValue).toBe("1,500");
+  });
+
+  it("formats the view value on blur and on setValue", () => {
+    const control = new FormControl<number | null>(null, { parse: toNumber, format: toAmount });
+    control.onChange(changeEvent("1500"));
+    expect(control.viewValue).toBe("1500");
+    control.onBlur();
+    expect(control.viewValue).toBe("1,500");
+    control.setValue(2000);
+    expect(control.viewValue).toBe("2,000");
+  });
+
+  it("stores null and reports a parse error when the value can't be parsed", () => {
+    const control = new FormControl<number | null>(1, { parse: toNumber, format: toAmount });
+    control.onChange(changeEvent("abc"));
+    expect(control.value).toBeNull();
+    expect(control.viewValue).toBe("abc");
+    expect(control.errors).toEqual({ parse: { viewValue: "abc", message: "Not a number" } });
+
+    control.onBlur();
+    expect(control.viewValue).toBe("abc");
+    control.onChange(changeEvent("12"));
+    expect(control.errors).toBeNull();
+  });
+
+  it("reports the parse error of a thrown value which isn't an Error", () => {
+    const control = new FormControl("", {
+      parse: () => {
+        throw "invalid"; // tslint:disable-line:no-string-throw
+      }
+    });
+    control.onChange(changeEvent("x"));
+    expect(control.errors).toEqual({ parse: { viewValue: "x", message: "invalid" } });
+  });
+});
+
+describe("masks", () => {
+  it("masks the typed value and stores the masked value by default", () => {
+    const control = new FormControl("", { mask: "(999) 999-9999" });
+    control.onChange(changeEvent("4155552671"));
+    expect(control.viewValue).toBe("(415) 555-2671");
+    expect(control.value).toBe("(415) 555-2671");
+  });
+
+  it("stores the raw value", () => {
+    const control = new FormControl("", { mask: "(999) 999-9999", maskStorage: "raw" });
+    control.onChange(changeEvent("(415) 55"));
+    expect(control.viewValue).toBe("(415) 55");
+    expect(control.value).toBe("41555");
+  });
+
+  it("masks the value set programmatically", () => {
+    const control = new FormControl("", { mask: "9999 9999", maskStorage: "raw" });
+    control.setValue("12345678");
+    expect(control.viewValue).toBe("1234 5678");
+  });
+
+  it("accepts a mask function", () => {
+    const control = new FormControl("", { mask: (value: string) => value.toUpperCase() });
+    control.onChange("ab12");
+    expect(control.value).toBe("AB12");
+  });
+
+  it("keeps the caret after the same letters and digits", () => {
+    expect(getMaskedCaret("41555", 5, "(415) 55")).toBe(8);
+    expect(getMaskedCaret("4155", 2, "(415) 5")).toBe(3);
+
+    const input: any = {
+      value: "41555",
+      selectionStart: 3,
+      setSelectionRange: jest.fn()
+    };
+    input.ownerDocument = { activeElement: input };
+    updateMaskedInput(input, "(415) 55");
+    expect(input.value).toBe("(415) 55");
+    expect(input.setSelectionRange).toHaveBeenCalledWith(4, 4);
+  });
+
+  it("masks the text of a React Native input", () => {
+    (globalThis as any).window = { navigator: { product: "ReactNative" } };
+    try {
+      const control = new FormControl("", { mask: "(999) 999-9999" });
+      control.onChange({
+        target: 12,
+        nativeEvent: { text: "4155" },
+        stopPropagation: () => undefined,
+        preventDefault: () => undefined
+      });
+      expect(control.viewValue).toBe("(415) 5");
+    } finally {
+      delete (globalThis as any).window;
+    }
+  });
+});
+
+describe("sanitizers", () => {
+  it("sanitizes the typed value before it's validated", () => {
+    const control = new FormControl("", {
+      sanitizers: [Sanitizers.trim, Sanitizers.toLowerCase],
+      validators: Validators.email
+    });
+    control.onChange(changeEvent("  Me@Example.COM "));
+    expect(control.value).toBe("me@example.com");
+    expect(control.valid).toBe(true);
+  });
+
+  it("sanitizes the values set programmatically and the initial value", () => {
+    const control = new FormControl(" a ", { sanitizers: Sanitizers.trim });
+    expect(control.value).toBe("a");
+    control.setValue("  b");
+    expect(control.value).toBe("b");
+    control.reset("c  ");
+    expect(control.value).toBe("c");
+  });
+
+  it("leaves the values which aren't strings unchanged", () => {
+    const control = new FormControl<any>(null, { sanitizers: [Sanitizers.trim, Sanitizers.stripTags] });
+    control.setValue(42);
+    expect(control.value).toBe(42);
+  });
+
+  it("provides the built-in string sanitizers", () => {
+    expect(Sanitizers.collapseWhitespace("a \t\n b")).toBe("a b");
+    expect(Sanitizers.removeControlChars("a\u0000b\tc\u007F")).toBe("ab\tc");
+    expect(Sanitizers.stripTags("<b>bold</b> <script>x</script>")).toBe("bold x");
+    expect(Sanitizers.toUpperCase("abc")).toBe("ABC");
+  });
+});
+
+describe("debounce update strategy", () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it("commits the value once typing pauses", () => {
+    const control = new FormControl("", { updateOn: { debounce: 300 }, validators: Validators.minLength(3) });
+    control.onChange(changeEvent("ab"));
+    jest.advanceTimersByTime(200);
+    control.onChange(changeEvent("abc"));
+    jest.advanceTimersByTime(200);
+    expect(control.value).toBe("");
+    expect(control.pendingValue).toBe("abc");
+
+    jest.advanceTimersByTime(100);
+    expect(control.value).toBe("abc");
+    expect(control.dirty).toBe(true);
+    expect(control.valid).toBe(true);
+  });
+
+  it("flushes the pending value on blur", () => {
+    const control = new FormControl("", { updateOn: "debounce", debounceTime: 300 });
+    control.onChange(changeEvent("abc"));
+    control.onBlur();
+    expect(control.value).toBe("abc");
+    expect(control.touched).toBe(true);
+  });
+
+  it("flushes the pending value on submit", () => {
+    const form = new FormGroup({
+      search: new FormControl("", { updateOn: { debounce: 300 } })
+    });
+    form.get("search")!.onChange(changeEvent("abc"));
+    form.handleSubmit(undefined as any);
+    expect(form.value).toEqual({ search: "abc" });
+  });
+
+  it("cancels the scheduled commit when the value is set", () => {
+    const control = new FormControl("", { updateOn: { debounce: 300 } });
+    control.onChange(changeEvent("abc"));
+    control.setValue("xyz");
+    jest.advanceTimersByTime(300);
+    expect(control.value).toBe("xyz");
+  });
+
+  it("inherits the strategy of the group", () => {
+    const form = new FormGroup({ search: new FormControl("") }, { updateOn: { debounce: 300 } });
+    const search = form.get("search")!;
+    expect(search.updateOn).toBe("debounce");
+    expect(search.debounceTime).toBe(300);
+    (search as FormControl).onChange(changeEvent("abc"));
+    expect(form.value).toEqual({ search: "" });
+    jest.advanceTimersByTime(300);
+    expect(form.value).toEqual({ search: "abc" });
+  });
+});
+
+describe("initial value and dirty check", () => {
+  it("restores the initial value on reset", () => {
+    const control = new FormControl("initial");
+    control.setValue("changed");
+    control.markAsDirty();
+    control.reset();
+    expect(control.value).toBe("initial");
+    expect(control.pristine).toBe(true);
+  });
+
+  it("keeps the initial value when resetting to a value", () => {
+    const control = new FormControl("initial");
+    control.reset("other");
+    expect(control.value).toBe("other");
+    expect(control.initialValue).toBe("initial");
+    control.reset();
+    expect(control.value).toBe("initial");
+  });
+
+  it("stays pristine when reset to a value with the value dirty check", () => {
+    const control = new FormControl("initial", { dirtyCheck: "value" });
+    control.reset("other");
+    expect(control.value).toBe("other");
+    expect(control.pristine).toBe(true);
+    expect(control.dirty).toBe(false);
+
+    const form = new FormGroup({ name: new FormControl("a"), city: new FormControl("Paris") }, { dirtyCheck: "value" });
+    form.reset({ name: "b", city: "Lyon" });
+    expect(form.value).toEqual({ name: "b", city: "Lyon" });
+    expect(form.pristine).toBe(true);
+  });
+
+  it("restores the value given to setInitialValue", () => {
+    const control = new FormControl("initial");
+    control.setValue("saved");
+    control.setInitialValue();
+    control.setValue("changed");
+    control.reset();
+    expect(control.value).toBe("saved");
+  });
+
+  it("computes dirty by comparing the value with the initial one", () => {
+    const control = new FormControl({ tags: ["a"] }, { dirtyCheck: "value" });
+    control.onChange({ tags: ["a", "b"] });
+    expect(control.dirty).toBe(true);
+    control.onChange({ tags: ["a"] });
+    expect(control.dirty).toBe(false);
+  });
+
+  it("computes dirty with the interaction by default", () => {
+    const control = new FormControl("a");
+    control.onChange(changeEvent("b"));
+    control.onChange(changeEvent("a"));
+    expect(control.dirty).toBe(true);
+  });
+
+  it("updates the pristine state of a group set programmatically", () => {
+    const form = new FormGroup({
+      name: new FormControl("a"),
+      address: new FormGroup({ city: new FormControl("Paris") })
+    }, { dirtyCheck: "value" });
+    form.patchValue({ address: { city: "Lyon" } });
+    expect(form.dirty).toBe(true);
+    expect(form.get("address")!.dirty).toBe(true);
+    form.setValue({ name: "a", address: { city: "Paris" } });
+    expect(form.dirty).toBe(false);
+  });
+
+  it("resets a group to the initial values of its controls", () => {
+    const form = new FormGroup({ name: new FormControl("a"), city: new FormControl("Paris") });
+    form.setValue({ name: "b", city: "Lyon" });
+    form.reset({ city: "Nice" });
+    expect(form.value).toEqual({ name: "a", city: "Nice" });
+    form.reset();
+    expect(form.value).toEqual({ name: "a", city: "Paris" });
+  });
+});
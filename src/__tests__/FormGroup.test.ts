@@ -0,0 +1,77 @@
+import { FormArray } from "../FormArray";
+import { FormControl } from "../FormControl";
+import { FormGroup } from "../FormGroup";
+import Validators from "../validators";
+
+const createElement = (focused: string[], name: string) => ({
+  focus: () => focused.push(name),
+  scrollIntoView: jest.fn()
+});
+
+describe("focus management", () => {
+  it("registers the element through the ref of the handler", () => {
+    const focused: string[] = [];
+    const control = new FormControl("");
+    const props = control.handler("text", undefined, { ref: true });
+    expect(control.focus()).toBe(false);
+    props.ref(createElement(focused, "name"));
+    expect(control.focus()).toBe(true);
+    expect(focused).toEqual(["name"]);
+  });
+
+  it("focuses the first invalid control in tree order", () => {
+    const focused: string[] = [];
+    const form = new FormGroup({
+      name: new FormControl("Jane", Validators.required),
+      address: new FormGroup({
+        street: new FormControl("Main St", Validators.required),
+        city: new FormControl("", Validators.required)
+      }),
+      email: new FormControl("", Validators.required)
+    });
+    ["name", "address.street", "address.city", "email"].forEach(path => {
+      const control = form.get(path.split("."));
+      if (control instanceof FormControl) {
+        control.registerElement(createElement(focused, path));
+      }
+    });
+    expect(form.focusFirstInvalid()).toBe(true);
+    expect(focused).toEqual(["address.city"]);
+  });
+
+  it("doesn't focus a valid control for the errors of a group", () => {
+    const focused: string[] = [];
+    const form = new FormGroup({
+      password: new FormControl("secret"),
+      confirm: new FormControl("other")
+    }, { validators: Validators.matchFields("password", "confirm") });
+    (form.get("password") as FormControl).registerElement(createElement(focused, "password"));
+    (form.get("confirm") as FormControl).registerElement(createElement(focused, "confirm"));
+    expect(form.focusFirstInvalid()).toBe(false);
+    expect(focused).toEqual([]);
+
+    form.setValidators(Validators.matchFields("password", "confirm", { mirror: true }));
+    form.updateValueAndValidity();
+    expect(form.focusFirstInvalid()).toBe(true);
+    expect(focused).toEqual(["confirm"]);
+  });
+
+  it("focuses and scrolls to the first invalid control on submit", () => {
+    const focused: string[] = [];
+    const items = new FormArray([new FormControl("a"), new FormControl("", Validators.required)]);
+    const form = new FormGroup({ items }, { focusInvalidOnSubmit: true });
+    const element = createElement(focused, "items.1");
+    (items.at(1) as FormControl).registerElement(element);
+    form.handleSubmit(undefined as any);
+    expect(focused).toEqual(["items.1"]);
+    expect(element.scrollIntoView).toHaveBeenCalled();
+  });
+
+  it("doesn't focus anything on submit unless enabled", () => {
+    const focused: string[] = [];
+    const form = new FormGroup({ name: new FormControl("", Validators.required) });
+    (form.get("name") as FormControl).registerElement(createElement(focused, "name"));
+    form.handleSubmit(undefined as any);
+    expect(focused).toEqual([]);
+  });
+});
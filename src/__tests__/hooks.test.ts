@@ -0,0 +1,43 @@
+/**
+ * @jest-environment jsdom
+ */
+import React, { useEffect } from "react";
+import TestRenderer, { act } from "react-test-renderer";
+import { FormControl } from "../FormControl";
+import { useControlState } from "../hooks";
+
+describe("useControlState", () => {
+  it("re-renders with the selected state when the control changes", () => {
+    const control = new FormControl("a");
+    const Value = () => React.createElement("span", null, useControlState(control, c => c.value));
+    let renderer!: TestRenderer.ReactTestRenderer;
+    act(() => {
+      renderer = TestRenderer.create(React.createElement(Value));
+    });
+    act(() => {
+      control.setValue("b");
+    });
+    expect(renderer.root.findByType("span").children).toEqual(["b"]);
+  });
+
+  it("sees the changes made before it subscribes", () => {
+    const control = new FormControl("initial");
+    const Child = () => {
+      useEffect(() => {
+        control.setValue("changed on mount");
+      }, []);
+      return null;
+    };
+    const Parent = () => React.createElement(
+      "span",
+      null,
+      useControlState(control, c => c.value),
+      React.createElement(Child)
+    );
+    let renderer!: TestRenderer.ReactTestRenderer;
+    act(() => {
+      renderer = TestRenderer.create(React.createElement(Parent));
+    });
+    expect(renderer.root.findByType("span").children[0]).toBe("changed on mount");
+  });
+});
@@ -0,0 +1,61 @@
+import { FormControl } from "../FormControl";
+import { registerInputAdapter, unregisterInputAdapter } from "../inputAdapters";
+import { getInputControls } from "../utils";
+
+const changeEvent = (target: any) => ({
+  target,
+  stopPropagation: () => undefined,
+  preventDefault: () => undefined
+});
+
+describe("input adapters", () => {
+  afterEach(() => {
+    unregisterInputAdapter("DatePicker");
+  });
+
+  it("reads the value with the adapter named in the handler", () => {
+    registerInputAdapter("DatePicker", { getValue: (date: Date) => date.toISOString().slice(0, 10) });
+    const control = new FormControl("");
+    control.handler("DatePicker").onChange(new Date(Date.UTC(2021, 4, 1)));
+    expect(control.value).toBe("2021-05-01");
+  });
+
+  it("passes every argument of onChange to the adapter", () => {
+    registerInputAdapter("DatePicker", { getValue: (event: any, value: string) => value });
+    const control = new FormControl("");
+    control.handler("DatePicker").onChange(changeEvent({}), "2021-05-01");
+    expect(control.value).toBe("2021-05-01");
+  });
+
+  it("reads the value of an event with the adapter of the input type", () => {
+    const control = new FormControl<number | null>(null);
+    control.handler("number").onChange(changeEvent({ type: "number", value: "42", valueAsNumber: 42 }));
+    expect(control.value).toBe(42);
+  });
+
+  it("binds a checkbox to an array of values", () => {
+    const control = new FormControl<string[]>(["a"]);
+    const props = control.handler("checkbox", "b");
+    expect(props.checked).toBe(false);
+    props.onChange(changeEvent({ type: "checkbox", checked: true }));
+    expect(control.value).toEqual(["a", "b"]);
+  });
+
+  it("passes the values which aren't events to a built-in adapter", () => {
+    const control = new FormControl<any>(null);
+    control.handler("number").onChange(42);
+    expect(control.value).toBe(42);
+    control.handler("date").onChange(new Date(Date.UTC(2021, 4, 1)));
+    expect(control.value).toEqual(new Date(Date.UTC(2021, 4, 1)));
+  });
+
+  it("keeps the deprecated input mappings of the utils", () => {
+    expect(getInputControls("text")).toEqual({
+      value: "value",
+      onChange: "onChange",
+      onBlur: "onBlur",
+      onFocus: "onFocus",
+      disabled: "disabled"
+    });
+  });
+});
@@ -0,0 +1,204 @@
+import { FormArray } from "../FormArray";
+import { FormControl } from "../FormControl";
+import { FormGroup } from "../FormGroup";
+import Validators from "../validators";
+
+describe("cross-field validators", () => {
+  it("reports matchFields on the group and mirrors it on the matching control", () => {
+    const form = new FormGroup({
+      password: new FormControl("secret"),
+      confirm: new FormControl("other")
+    }, { validators: Validators.matchFields("password", "confirm", { mirror: true }) });
+    expect(form.errors).toEqual({ matchFields: { path: "password", matchingPath: "confirm" } });
+    expect(form.get("confirm")!.errors).toEqual({ matchFields: { path: "password", matchingPath: "confirm" } });
+
+    form.get("confirm")!.setValue("secret");
+    expect(form.errors).toBeNull();
+    expect(form.get("confirm")!.errors).toBeNull();
+  });
+
+  it("keeps the own errors of a control when mirroring", () => {
+    const form = new FormGroup({
+      password: new FormControl("secret"),
+      confirm: new FormControl("", Validators.required)
+    }, { validators: Validators.matchFields("password", "confirm", { mirror: true }) });
+    expect(form.get("confirm")!.errors).toEqual({
+      required: true,
+      matchFields: { path: "password", matchingPath: "confirm" }
+    });
+  });
+
+  it("doesn't emit status changes on the mirrored control", () => {
+    const confirm = new FormControl("other");
+    const form = new FormGroup({
+      password: new FormControl("secret"),
+      confirm
+    }, { validators: Validators.matchFields("password", "confirm", { mirror: true }) });
+    const statuses: any[] = [];
+    confirm.statusChanges.subscribe(status => statuses.push(status));
+    form.updateValueAndValidity();
+    expect(statuses).toEqual([]);
+  });
+
+  it("requires a control when the predicate matches", () => {
+    const form = new FormGroup({
+      contact: new FormControl("email"),
+      email: new FormControl("")
+    }, { validators: Validators.requiredIf("email", group => group.value.contact === "email") });
+    expect(form.errors).toEqual({ requiredIf: { path: "email" } });
+    form.get("contact")!.setValue("phone");
+    expect(form.errors).toBeNull();
+  });
+
+  it("requires at least one of the controls", () => {
+    const form = new FormGroup({
+      phone: new FormControl(""),
+      email: new FormControl("")
+    }, { validators: Validators.atLeastOneRequired(["phone", "email"]) });
+    expect(form.errors).toEqual({ atLeastOneRequired: { paths: ["phone", "email"] } });
+    form.get("email")!.setValue("me@example.com");
+    expect(form.errors).toBeNull();
+  });
+
+  it("validates a date range and ignores missing controls", () => {
+    const form = new FormGroup({
+      start: new FormControl("2021-02-01"),
+      end: new FormControl("2021-01-01")
+    }, { validators: Validators.dateRange("start", "end") });
+    expect(form.errors).toEqual({ dateRange: { start: "2021-02-01", end: "2021-01-01" } });
+
+    const partial = new FormGroup({
+      start: new FormControl("2021-02-01")
+    }, { validators: Validators.dateRange("start", "end", { mirror: true }) });
+    expect(partial.errors).toBeNull();
+  });
+
+  it("requires the values to add up to a total", () => {
+    const form = new FormGroup({
+      a: new FormControl(30),
+      b: new FormControl("50")
+    }, { validators: Validators.sumEquals(["a", "b"], 100) });
+    expect(form.errors).toEqual({ sumEquals: { total: 100, actual: 80 } });
+    form.get("a")!.setValue(50);
+    expect(form.errors).toBeNull();
+  });
+});
+
+describe("array validators", () => {
+  it("counts the items", () => {
+    const items = new FormArray([new FormControl(1)], {
+      validators: [Validators.minItems(2), Validators.maxItems(3)]
+    });
+    expect(items.errors).toEqual({ minItems: { minItems: 2, actual: 1 } });
+    items.push(new FormControl(2));
+    expect(items.errors).toBeNull();
+  });
+
+  it("reports the indices of duplicated items and skips disabled items", () => {
+    const items = new FormArray([
+      new FormControl({ email: "a@example.com" }),
+      new FormControl({ value: { email: "a@example.com" }, disabled: true }),
+      new FormControl({ email: "b@example.com" }),
+      new FormControl({ email: "a@example.com" })
+    ], { validators: Validators.uniqueBy("email") });
+    expect(items.errors).toEqual({ uniqueBy: { duplicates: [[0, 3]] } });
+  });
+
+  it("runs a validator against every item or some item", () => {
+    const items = new FormArray([new FormControl("a"), new FormControl("")], {
+      validators: Validators.everyItem(Validators.required)
+    });
+    expect(items.errors).toEqual({ everyItem: { 1: { required: true } } });
+
+    const some = new FormArray([new FormControl(""), new FormControl("")], {
+      validators: Validators.someItem(Validators.required)
+    });
+    expect(some.errors).toEqual({ someItem: true });
+  });
+
+  it("doesn't treat a group as an array", () => {
+    const group = new FormGroup({ 0: new FormControl("a"), 1: new FormControl("a") }, {
+      validators: Validators.uniqueBy(value => value)
+    });
+    expect(group.errors).toBeNull();
+  });
+});
+
+describe("format validators", () => {
+  it("checks the precision and the scale of numeric values", () => {
+    const validator = Validators.numeric(5, 2);
+    expect(validator(new FormControl("123.45"))).toBeNull();
+    expect(validator(new FormControl("12.345"))).toEqual({
+      numeric: { precision: 5, scale: 2, actualPrecision: 5, actualScale: 3, actual: "12.345" }
+    });
+    expect(validator(new FormControl("abc"))).toEqual({
+      numeric: { precision: 5, scale: 2, actualPrecision: null, actualScale: null, actual: "abc" }
+    });
+  });
+
+  it("validates credit card numbers, IBANs and postal codes", () => {
+    expect(Validators.creditCard(new FormControl("4111 1111 1111 1111"))).toBeNull();
+    expect(Validators.creditCard(new FormControl("4111 1111 1111 1112"))).toEqual({
+      creditCard: { actual: "4111 1111 1111 1112" }
+    });
+    expect(Validators.iban(new FormControl("GB82 WEST 1234 5698 7654 32"))).toBeNull();
+    expect(Validators.iban(new FormControl("GB82 WEST 1234 5698 7654 33"))).not.toBeNull();
+    expect(Validators.postalCode("us")(new FormControl("94105"))).toBeNull();
+    expect(() => Validators.postalCode("zz")).toThrow();
+  });
+
+  it("compares dates with the bounds", () => {
+    expect(Validators.minDate("2021-01-01")(new FormControl("2020-12-31"))).toEqual({
+      minDate: { minDate: "2021-01-01", actual: "2020-12-31" }
+    });
+    expect(Validators.maxDate("2021-01-01")(new FormControl("2020-12-31"))).toBeNull();
+    expect(Validators.minDate("2021-01-01")(new FormControl("not a date"))).toBeNull();
+  });
+
+  it("throws on an invalid date bound", () => {
+    expect(() => Validators.minDate("not a date")).toThrow("Invalid minDate: not a date.");
+    expect(() => Validators.maxDate(NaN)).toThrow("Invalid maxDate: NaN.");
+  });
+
+  it("ignores empty values", () => {
+    const empty = new FormControl("");
+    expect(Validators.url(empty)).toBeNull();
+    expect(Validators.integer(empty)).toBeNull();
+    expect(Validators.uuid(empty)).toBeNull();
+    expect(Validators.json(empty)).toBeNull();
+  });
+});
+
+describe("validator combinators", () => {
+  it("runs the validators when the predicate matches", () => {
+    const validator = Validators.when(control => control.value !== "skip", Validators.minLength(5));
+    expect(validator(new FormControl("skip"))).toBeNull();
+    expect(validator(new FormControl("abc"))).toEqual({ minLength: { requiredLength: 5, actualLength: 3 } });
+  });
+
+  it("passes when one of the validators passes", () => {
+    const validator = Validators.or(Validators.email, Validators.phoneE164);
+    expect(validator(new FormControl("+14155552671"))).toBeNull();
+    expect(validator(new FormControl("nope"))).toEqual({ email: true, phoneE164: { actual: "nope" } });
+  });
+
+  it("inverts a validator", () => {
+    const validator = Validators.not(Validators.pattern(/admin/)!, "reserved");
+    expect(validator(new FormControl("admin"))).toEqual({ reserved: true });
+    expect(validator(new FormControl("user"))).toBeNull();
+  });
+
+  it("switches between validation groups", () => {
+    const form = new FormGroup({
+      title: new FormControl("Draft", Validators.groups({
+        default: Validators.required,
+        publish: [Validators.required, Validators.minLength(10)]
+      }))
+    });
+    expect(form.valid).toBe(true);
+    form.setValidationGroup("publish");
+    expect(form.get("title")!.errors).toEqual({ minLength: { requiredLength: 10, actualLength: 5 } });
+    form.setValidationGroup(null);
+    expect(form.valid).toBe(true);
+  });
+});
@@ -65,16 +65,21 @@ const configureControl = (props, context, reference) => {
     } else {
       if (parentControl instanceof FormArray) {
         /**
-         * If a index prop is defined then insert the control at a particular index otherwise
-         * push the control at the end of FormArray
+         * If a index prop is defined then use the control present at that index, or insert
+         * the control at that index if there is none, otherwise push the control at the end
+         * of FormArray
          */
-        const insertAtIndex =
-          index !== undefined ? index : parentControl.controls.length
-        parentControl.insert(
-          insertAtIndex,
-          getControlFromReference(reference, options, formState)
-        )
-        returnControl = parentControl.at(insertAtIndex)
+        if (index !== undefined && parentControl.at(index)) {
+          returnControl = parentControl.at(index)
+        } else {
+          const insertAtIndex =
+            index !== undefined ? index : parentControl.controls.length
+          parentControl.insert(
+            insertAtIndex,
+            getControlFromReference(reference, options, formState)
+          )
+          returnControl = parentControl.at(insertAtIndex)
+        }
       } else {
         // Create a new instance and return as control in case of FormArray and FormGroup
         if (reference === 'FormGroup' || reference === 'FormArray') {
@@ -87,6 +92,11 @@ const configureControl = (props, context, reference) => {
   if (returnControl && meta) {
     returnControl.meta = meta
   }
+  // A root control uses the matcher of the ErrorStateMatcherProvider unless its options set one
+  if (returnControl && !returnControl.parent && context.errorStateMatcher &&
+    !(options && options.errorStateMatcher)) {
+    returnControl.setErrorStateMatcher(context.errorStateMatcher, { emitEvent: false })
+  }
   return returnControl
 }
 
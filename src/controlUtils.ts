@@ -1,35 +1,17 @@
 import { AbstractControl } from "./AbstractControl";
-import { FormArray } from "./FormArray";
-import { FormGroup } from "./FormGroup";
-import { AsyncValidatorFn, ValidatorFn, ValidatorOptions } from "./types";
-import { isEvent, isReactNative } from "./utils";
+import { AsyncValidatorContext, AsyncValidatorFn, ValidatorFn, ValidatorOptions } from "./types";
+import { getEventValue } from "./inputAdapters";
+import { isEvent } from "./utils";
 import Validators from "./validators";
 
 /**
- * Calculates the control's value according to the input type
+ * Calculates the control's value according to the input type, see `registerInputAdapter`.
  * @param {any} event
  * @return {any}
  */
 export function getControlValue(event: any): any {
   if (isEvent(event)) {
-    switch (event.target.type) {
-      case "checkbox":
-        return event.target.checked;
-      case "select-multiple":
-        if (event.target.options) {
-          const options = event.target.options;
-          const value = [];
-          for (let i = 0, l = options.length; i < l; i++) {
-            if (options[i].selected) {
-              value.push(options[i].value);
-            }
-          }
-          return value;
-        }
-        return event.target.value;
-      default:
-        return isReactNative() ? event.nativeEvent.text : event.target.value;
-    }
+    return getEventValue(event);
   }
   return event;
 }
@@ -48,23 +30,18 @@ export function _find(
     path = path.split(delimiter);
   }
   if (path instanceof Array && path.length === 0) return null;
-  return path.reduce((v, name) => {
-    if (v instanceof FormGroup) {
-      return v.controls[name] || null;
-    }
-    if (v instanceof FormArray) {
-      return v.at(name) || null;
-    }
-    return null;
-  }, control);
+  return path.reduce(
+    (v: AbstractControl | null, name: string | number) => v ? v._getChild(name) : null,
+    control
+  );
 }
 /**
  * @param {{validators: Function|Function[]|null, asyncValidators: Function|Function[]|null, updateOn: 'change' | 'blur' | 'submit'}} validatorOrOpts
  * @return {Boolean}
  */
 export function isOptionsObj(
-  validatorOrOpts: ValidatorOptions | ValidatorFn | ValidatorFn[] | null
-): boolean {
+  validatorOrOpts?: ValidatorOptions | ValidatorFn | ValidatorFn[] | null
+): validatorOrOpts is ValidatorOptions {
   return (
     validatorOrOpts != null &&
     !Array.isArray(validatorOrOpts) &&
@@ -85,9 +62,9 @@ export function normalizeValidator(validator: ValidatorFn | any): ValidatorFn {
  * @param {Function} validator
  * @return {Function}
  */
-export function normalizeAsyncValidator(validator: ValidatorFn | any): ValidatorFn {
+export function normalizeAsyncValidator(validator: AsyncValidatorFn | any): AsyncValidatorFn {
   if (validator.validate) {
-    return (c: AbstractControl) => validator(c);
+    return (c: AbstractControl, context: AsyncValidatorContext) => validator(c, context);
   }
   return validator;
 }
@@ -104,13 +81,13 @@ export function composeValidators(validators: ValidatorFn[]): ValidatorFn | null
  * @param {Function[]} validators
  * @return {Function|null}
  */
-export function composeAsyncValidators(validators: ValidatorFn[]): AsyncValidatorFn | null {
+export function composeAsyncValidators(validators: AsyncValidatorFn[]): AsyncValidatorFn | null {
   return validators != null
     ? Validators.composeAsync(validators.map(normalizeAsyncValidator))
     : null;
 }
 
-export function coerceToValidator(validatorOrOpts: ValidatorFn | ValidatorFn[] | ValidatorOptions | null = {}):
+export function coerceToValidator(validatorOrOpts: ValidatorFn | ValidatorFn[] | ValidatorOptions | null = null):
 ValidatorFn | null {
   const validator = isOptionsObj(validatorOrOpts)
     ? validatorOrOpts.validators
@@ -120,8 +97,26 @@ ValidatorFn | null {
     : validator || null;
 }
 
+/**
+ * Returns the validators as they were given, before being composed.
+ * @param {Function|Function[]|{validators: Function|Function[]|null}|null} validatorOrOpts
+ * @return {Function[]}
+ */
+export function coerceToValidatorList(
+  validatorOrOpts: ValidatorFn | ValidatorFn[] | ValidatorOptions | null = null
+): ValidatorFn[] {
+  const validator = isOptionsObj(validatorOrOpts)
+    ? validatorOrOpts.validators
+    : validatorOrOpts;
+  if (!validator) {
+    return [];
+  }
+  return Array.isArray(validator) ? validator : [validator];
+}
+
 export function coerceToAsyncValidator(
-  asyncValidator: ValidatorFn | ValidatorFn[] | null, validatorOrOpts: ValidatorFn | ValidatorOptions = {}
+  asyncValidator: AsyncValidatorFn | AsyncValidatorFn[] | null = null,
+  validatorOrOpts: ValidatorFn | ValidatorFn[] | ValidatorOptions | null = null
 ): AsyncValidatorFn | null {
   const origAsyncValidator = isOptionsObj(validatorOrOpts)
     ? validatorOrOpts.asyncValidators
@@ -0,0 +1,150 @@
+import { AbstractControl } from "./AbstractControl";
+
+export type ErrorMessageTemplate = string | ((error: any, control: AbstractControl) => string);
+
+export type ErrorMessages = { [code: string]: ErrorMessageTemplate };
+
+const DEFAULT_LOCALE = "en";
+
+const registry: { [locale: string]: ErrorMessages } = {
+  en: {
+    required: "This field is required.",
+    email: "Please enter a valid email address.",
+    min: "Please enter a value greater than or equal to {min}.",
+    max: "Please enter a value less than or equal to {max}.",
+    minLength: "Please enter at least {requiredLength} characters.",
+    maxLength: "Please enter no more than {requiredLength} characters.",
+    pattern: "Please match the requested format.",
+    url: "Please enter a valid URL.",
+    integer: "Please enter a whole number.",
+    numeric: (error: any) => error.actualPrecision == null
+      ? "Please enter a valid number."
+      : error.scale != null && error.actualScale > error.scale
+        ? `Please enter a number with at most ${error.scale} decimals.`
+        : `Please enter a number with at most ${error.precision} digits.`,
+    creditCard: "Please enter a valid card number.",
+    iban: "Please enter a valid IBAN.",
+    postalCode: "Please enter a valid postal code.",
+    phoneE164: "Please enter a phone number in international format, e.g. +14155552671.",
+    date: "Please enter a valid date.",
+    minDate: "Please enter a date on or after {minDate}.",
+    maxDate: "Please enter a date on or before {maxDate}.",
+    uuid: "Please enter a valid UUID.",
+    json: "Please enter valid JSON.",
+    parse: "Please enter a valid value.",
+    matchFields: "The values don't match.",
+    requiredIf: "This field is required.",
+    atLeastOneRequired: "Please fill in at least one of the fields.",
+    dateRange: "The start date must be before the end date.",
+    sumEquals: "The values must add up to {total}.",
+    minItems: "Please add at least {minItems} items.",
+    maxItems: "Please add no more than {maxItems} items.",
+    uniqueBy: "Some items are duplicated.",
+    everyItem: "Some items are invalid.",
+    someItem: "At least one item must be valid."
+  }
+};
+
+let currentLocale = DEFAULT_LOCALE;
+
+/**
+ * Registers messages for a locale, they are merged with the messages already registered.
+ *
+ * ### Example
+ * ```
+ * registerErrorMessages("fr", {
+ *   required: "Ce champ est obligatoire.",
+ *   minLength: "Veuillez saisir au moins {requiredLength} caractères."
+ * });
+ * ```
+ * @param {String} locale
+ * @param {{[code: string]: string|Function}} messages
+ * @return {void}
+ */
+export function registerErrorMessages(locale: string, messages: ErrorMessages): void {
+  registry[locale] = { ...registry[locale], ...messages };
+}
+/**
+ * Sets the locale used when no locale is passed explicitly.
+ * @param {String} locale
+ * @return {void}
+ */
+export function setErrorLocale(locale: string): void {
+  currentLocale = locale;
+}
+export function getErrorLocale(): string {
+  return currentLocale;
+}
+/**
+ * Replaces the `{field}` placeholders of a message with the fields of the error payload.
+ * @param {String} message
+ * @param {any} error
+ * @param {String} locale
+ * @return {String}
+ */
+export function interpolate(message: string, error: any, locale: string = currentLocale): string {
+  return message.replace(/\{(\w+)\}/g, (placeholder, field) => {
+    if (error == null || typeof error !== "object" || !(field in error)) {
+      return placeholder;
+    }
+    const value = error[field];
+    if (value instanceof Date) return value.toLocaleDateString(locale);
+    if (Array.isArray(value)) return value.join(", ");
+    return String(value);
+  });
+}
+/**
+ * Looks up the overrides defined in `meta.errorMessages`, either keyed by error code or
+ * by locale then error code.
+ */
+function _findOverride(control: AbstractControl, code: string, locale: string): ErrorMessageTemplate | undefined {
+  let current: AbstractControl | null = control;
+  while (current) {
+    const messages = current.meta && current.meta.errorMessages;
+    if (messages) {
+      const localized = messages[locale];
+      if (localized && typeof localized === "object" && code in localized) {
+        return localized[code];
+      }
+      if (code in messages && (typeof messages[code] === "string" || typeof messages[code] === "function")) {
+        return messages[code];
+      }
+    }
+    current = current.parent;
+  }
+  return undefined;
+}
+/**
+ * Returns the message of an error of the control.
+ *
+ * Messages are looked up in the `meta.errorMessages` of the control and of its ancestors,
+ * then in the registry for the locale, then in the default locale. The error code is
+ * returned when no message is found.
+ * @param {AbstractControl} control
+ * @param {String} code
+ * @param {String} locale
+ * @return {String|null}
+ */
+export function getErrorMessage(control: AbstractControl, code: string, locale: string = currentLocale): string | null {
+  if (!control.errors || !(code in control.errors)) return null;
+  const error = control.errors[code];
+  const template = _findOverride(control, code, locale)
+    || (registry[locale] && registry[locale][code])
+    || registry[DEFAULT_LOCALE][code];
+  if (!template) return code;
+  return typeof template === "function"
+    ? template(error, control)
+    : interpolate(template, error, locale);
+}
+/**
+ * Returns the messages of all the errors of the control.
+ * @param {AbstractControl} control
+ * @param {String} locale
+ * @return {String[]}
+ */
+export function getErrorMessages(control: AbstractControl, locale: string = currentLocale): string[] {
+  if (!control.errors) return [];
+  return Object.keys(control.errors)
+    .map(code => getErrorMessage(control, code, locale))
+    .filter((message): message is string => message != null);
+}
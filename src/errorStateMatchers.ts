@@ -0,0 +1,37 @@
+import { AbstractControl } from "./AbstractControl";
+
+/**
+ * Built-in strategies deciding when the errors of a control are shown.
+ */
+export default class ErrorStateMatchers {
+  /**
+   * Shows the errors as soon as the control is invalid.
+   */
+  public static immediately(control: AbstractControl): boolean {
+    return true;
+  }
+  /**
+   * Shows the errors once the control has been blurred.
+   */
+  public static touched(control: AbstractControl): boolean {
+    return control.touched;
+  }
+  /**
+   * Shows the errors once the user has changed the value.
+   */
+  public static dirty(control: AbstractControl): boolean {
+    return control.dirty;
+  }
+  /**
+   * Shows the errors once the form has been submitted.
+   */
+  public static submitted(control: AbstractControl): boolean {
+    return control.submitted;
+  }
+  /**
+   * Shows the errors once the control has been blurred or the form has been submitted.
+   */
+  public static touchedOrSubmitted(control: AbstractControl): boolean {
+    return control.touched || control.submitted;
+  }
+}
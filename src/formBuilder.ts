@@ -0,0 +1,59 @@
+import { AbstractControl } from "./AbstractControl";
+import { FormArray } from "./FormArray";
+import { FormControl } from "./FormControl";
+import { FormGroup } from "./FormGroup";
+import { ValidatorOptions } from "./types";
+
+export interface IFieldConfig {
+  controls?: { [key: string]: IFieldConfig } | IFieldConfig[]
+  /**
+   * Renders the control, for a group or an array it also receives the rendered children.
+   */
+  render?: (control: any, children?: React.ReactNode) => JSX.Element
+  strict?: boolean
+  options?: ValidatorOptions
+  formState?: any
+  meta?: { [key: string]: any }
+}
+
+/**
+ * Builds a control from the given config.
+ *
+ * A config with an object of `controls` creates a `FormGroup`, a config with an
+ * array of `controls` creates a `FormArray`, any other config creates a `FormControl`.
+ * @param {IFieldConfig} config
+ * @return {AbstractControl}
+ */
+export function buildControl(config: IFieldConfig): AbstractControl {
+  const { controls, options, formState, meta } = config
+  let control: AbstractControl
+  if (Array.isArray(controls)) {
+    control = new FormArray(controls.map(buildControl), options)
+  } else if (controls) {
+    control = new FormGroup(
+      Object.keys(controls).reduce((acc, name) => {
+        acc[name] = buildControl(controls[name])
+        return acc
+      }, {} as { [key: string]: AbstractControl }),
+      options
+    )
+  } else {
+    control = new FormControl(formState, options)
+  }
+  if (meta) {
+    control.meta = meta
+  }
+  return control
+}
+
+/**
+ * Builds the root `FormGroup` of a form from the given config.
+ * @param {IFieldConfig} config
+ * @return {FormGroup}
+ */
+export function buildForm(config: IFieldConfig): FormGroup {
+  if (Array.isArray(config.controls)) {
+    throw new Error(`The root of a form config must be a group of controls.`)
+  }
+  return buildControl({ ...config, controls: config.controls || {} }) as FormGroup
+}
@@ -0,0 +1,148 @@
+import { useCallback, useEffect, useState } from 'react'
+import { useSyncExternalStoreWithSelector } from 'use-sync-external-store/shim/with-selector'
+import { AbstractControl } from "./AbstractControl";
+import { FormArray } from "./FormArray";
+import { FormControl } from "./FormControl";
+import { FormGroup } from "./FormGroup";
+import {
+  AsyncValidatorFn,
+  ControlValue,
+  FieldStatus,
+  FormState,
+  ValidationErrors,
+  ValidatorFn,
+  ValidatorOptions
+} from "./types";
+import { shallowEqual } from './utils';
+
+export interface IControlState<T = any> {
+  value: T,
+  status: FieldStatus,
+  errors: ValidationErrors | null,
+  showErrors: boolean,
+  visibleErrors: ValidationErrors | null,
+  valid: boolean,
+  invalid: boolean,
+  pending: boolean,
+  disabled: boolean,
+  enabled: boolean,
+  touched: boolean,
+  untouched: boolean,
+  pristine: boolean,
+  dirty: boolean,
+  submitted: boolean
+}
+
+/**
+ * Returns a plain snapshot of the state of a control.
+ * @param {AbstractControl} control
+ * @return {IControlState}
+ */
+export function getControlState<T>(control: AbstractControl<T>): IControlState<T> {
+  return {
+    value: control.value,
+    status: control.status,
+    errors: control.errors,
+    showErrors: control.showErrors,
+    visibleErrors: control.visibleErrors,
+    valid: control.valid,
+    invalid: control.invalid,
+    pending: control.pending,
+    disabled: control.disabled,
+    enabled: control.enabled,
+    touched: control.touched,
+    untouched: control.untouched,
+    pristine: control.pristine,
+    dirty: control.dirty,
+    submitted: control.submitted
+  }
+}
+
+/**
+ * Subscribes to the `stateChanges` of a control and returns the selected slice of its state.
+ *
+ * The component re-renders only when the selection changes according to `isEqual`, which
+ * defaults to a shallow comparison. Without a selector the whole state snapshot is returned.
+ *
+ * ### Example
+ * ```
+ * const errors = useControlState(form.get('email'), control => control.errors)
+ * ```
+ */
+export function useControlState<TControl extends AbstractControl>(
+  control: TControl
+): IControlState<ControlValue<TControl>>;
+export function useControlState<TControl extends AbstractControl, TSelection>(
+  control: TControl,
+  selector: (control: TControl) => TSelection,
+  isEqual?: (a: TSelection, b: TSelection) => boolean
+): TSelection;
+export function useControlState(
+  control: AbstractControl,
+  selector: (control: AbstractControl) => any = getControlState,
+  isEqual: (a: any, b: any) => boolean = shallowEqual
+): any {
+  const subscribe = useCallback((onStoreChange: () => void) => {
+    const subscription = control.stateChanges.subscribe(onStoreChange)
+    return () => subscription.unsubscribe()
+  }, [control])
+  // The controls are mutable, their state version stands for the store snapshot.
+  const getSnapshot = () => control.stateVersion
+  return useSyncExternalStoreWithSelector(subscribe, getSnapshot, getSnapshot, () => selector(control), isEqual)
+}
+
+/**
+ * Creates a `FormControl` once per component lifetime and re-renders the component
+ * whenever the state of the control changes.
+ * Pending async validations are cancelled on unmount.
+ */
+export function useFormControl<T = any>(
+  formState: T | FormState<T>,
+  validatorOrOpts?: ValidatorFn | ValidatorFn[] | ValidatorOptions | null,
+  asyncValidator?: AsyncValidatorFn | AsyncValidatorFn[] | null
+): FormControl<T> {
+  const [control] = useState(() => new FormControl<T>(formState, validatorOrOpts, asyncValidator))
+  useControlState(control)
+  useEffect(() => () => control.destroy(), [control])
+  return control
+}
+
+/**
+ * Creates a `FormGroup` once per component lifetime and re-renders the component
+ * whenever the state of the group changes.
+ * Pending async validations are cancelled on unmount.
+ */
+export function useFormGroup<TControls extends { [K in keyof TControls]: AbstractControl }>(
+  controls: TControls | (() => TControls),
+  validatorOrOpts?: ValidatorFn | ValidatorFn[] | ValidatorOptions | null,
+  asyncValidator?: AsyncValidatorFn | AsyncValidatorFn[] | null
+): FormGroup<TControls> {
+  const [control] = useState(() => new FormGroup<TControls>(
+    typeof controls === 'function' ? (controls as () => TControls)() : controls,
+    validatorOrOpts,
+    asyncValidator
+  ))
+  useControlState(control)
+  useEffect(() => () => control.destroy(), [control])
+  return control
+}
+
+/**
+ * Creates a `FormArray` once per component lifetime and re-renders the component
+ * whenever the state of the array changes.
+ * Pending async validations are cancelled on unmount.
+ */
+export function useFormArray<TControl extends AbstractControl = AbstractControl>(
+  controls: TControl[] | (() => TControl[]) = [],
+  validatorOrOpts?: ValidatorFn | ValidatorFn[] | ValidatorOptions | null,
+  asyncValidator?: AsyncValidatorFn | AsyncValidatorFn[] | null
+): FormArray<TControl> {
+  const [control] = useState(() => new FormArray<TControl>(
+    typeof controls === 'function' ? controls() : controls,
+    validatorOrOpts,
+    asyncValidator
+  ))
+  useControlState(control)
+  useEffect(() => () => control.destroy(), [control])
+  return control
+}
@@ -0,0 +1,271 @@
+import { FormControl } from "./FormControl";
+import { HandlerOptions } from "./types";
+import { getAbsoluteValue, getAccessibilityProps, isEvent, isReactNative } from "./utils";
+
+export type InputProps = { [key: string]: any };
+
+export type InputPlatform = "web" | "native";
+
+/**
+ * Describes how an input type or a component is bound to a `FormControl`.
+ */
+export interface InputAdapter {
+  /**
+   * Maps the state of the control to the props of the input, `props` holds the common
+   * `value`, `onChange`, `onBlur`, `onFocus` and `disabled` props.
+   */
+  mapProps?: (props: InputProps, control: FormControl, value: any) => InputProps;
+  /**
+   * Reads the value from the arguments of `onChange`, it's used by the handler of the type
+   * and for the events whose `target.type` is the type of the adapter.
+   */
+  getValue?: (event: any, ...args: any[]) => any;
+}
+
+const pad = (value: number) => (value < 10 ? "0" : "") + value;
+
+const isDate = (value: any): value is Date => value instanceof Date && !isNaN(value.getTime());
+
+/**
+ * Reads the value of a `number` or a `range` input, `null` when the input is empty.
+ * @param {any} event
+ * @return {Number|null}
+ */
+const getNumberValue = (event: any) => {
+  const { value, valueAsNumber } = event.target;
+  if (value === "") {
+    return null;
+  }
+  return typeof valueAsNumber === "number" && !isNaN(valueAsNumber) ? valueAsNumber : Number(value);
+};
+
+/**
+ * Formats the `Date` values as expected by the input, `YYYY-MM-DD` in UTC as read
+ * by `valueAsDate` for a `date` input.
+ * @param {String} type
+ * @return {Function}
+ */
+const formatDateProps = (type: "date" | "datetime-local") => (props: InputProps) => {
+  const date = props.value;
+  if (!isDate(date)) {
+    return { ...props, type };
+  }
+  const value = type === "date"
+    ? `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())}`
+    : `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}` +
+      `T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+  return { ...props, value, type };
+};
+
+const defaultAdapters: { [platform in InputPlatform]: { [type: string]: InputAdapter } } = {
+  web: {
+    default: {
+      getValue: (event: any) => event.target.value
+    },
+    /**
+     * A checkbox bound to a boolean, or to an array of values when the value
+     * of the checkbox is given.
+     */
+    checkbox: {
+      mapProps: (props: InputProps, control: FormControl, value: any) => {
+        if (value === undefined) {
+          return { ...props, checked: !!props.value, type: "checkbox" };
+        }
+        const selected = Array.isArray(props.value) ? props.value : [];
+        return {
+          ...props,
+          checked: selected.indexOf(value) > -1,
+          value,
+          type: "checkbox",
+          onChange: (event: any) => {
+            const checked = isEvent(event) ? event.target.checked : !!event;
+            const current = control.pendingValue;
+            const values: any[] = Array.isArray(current) ? current.filter(item => item !== value) : [];
+            control.onChange(checked ? values.concat(value) : values);
+          }
+        };
+      },
+      getValue: (event: any) => event.target.checked
+    },
+    radio: {
+      mapProps: (props: InputProps, control: FormControl, value: any) =>
+        ({ ...props, checked: props.value === value, value, type: "radio" })
+    },
+    "number": {
+      mapProps: (props: InputProps) => ({ ...props, type: "number" }),
+      getValue: getNumberValue
+    },
+    "range": {
+      mapProps: (props: InputProps) => ({ ...props, type: "range" }),
+      getValue: getNumberValue
+    },
+    "date": {
+      mapProps: formatDateProps("date"),
+      getValue: (event: any) => event.target.value === ""
+        ? null
+        : event.target.valueAsDate || new Date(event.target.value)
+    },
+    "datetime-local": {
+      mapProps: formatDateProps("datetime-local"),
+      getValue: (event: any) => event.target.value === "" ? null : new Date(event.target.value)
+    },
+    /**
+     * A file input can't be controlled, its value is the `FileList` of the input.
+     */
+    "file": {
+      mapProps: ({ value, ...props }: InputProps) => ({ ...props, type: "file" }),
+      getValue: (event: any) => event.target.files
+    },
+    "select-multiple": {
+      mapProps: (props: InputProps) => ({
+        ...props,
+        value: Array.isArray(props.value) ? props.value : [],
+        multiple: true
+      }),
+      getValue: (event: any) => {
+        const options = event.target.options;
+        if (!options) {
+          return event.target.value;
+        }
+        const value = [];
+        for (let i = 0, l = options.length; i < l; i++) {
+          if (options[i].selected) {
+            value.push(options[i].value);
+          }
+        }
+        return value;
+      }
+    }
+  },
+  native: {
+    default: {
+      mapProps: ({ disabled, ...props }: InputProps, control: FormControl) => ({ ...props, editable: control.enabled }),
+      getValue: (event: any) => event.nativeEvent.text
+    },
+    switch: {
+      mapProps: ({ onChange, ...props }: InputProps) => ({ ...props, onValueChange: onChange })
+    }
+  }
+};
+
+const registry: { [platform in InputPlatform]: { [type: string]: InputAdapter } } = {
+  web: { ...defaultAdapters.web },
+  native: { ...defaultAdapters.native }
+};
+
+const getPlatform = (): InputPlatform => isReactNative() ? "native" : "web";
+
+/**
+ * A registered adapter binds a component, it reads the arguments of `onChange` even
+ * when they aren't events. A built-in adapter only reads events.
+ * @param {String} type
+ * @return {Boolean}
+ */
+const isRegisteredAdapter = (type: string) => {
+  const platform = getPlatform();
+  return !!registry[platform][type] && registry[platform][type] !== defaultAdapters[platform][type];
+};
+
+/**
+ * Registers an adapter for an input type or a component name, for both platforms unless
+ * a platform is given. The `default` adapter is used for the types without adapter.
+ *
+ * ### Example
+ *
+ * ```
+ * registerInputAdapter("Autocomplete", {
+ *   mapProps: (props, control) => ({
+ *     ...props,
+ *     onChange: (event, value) => control.onChange(value)
+ *   })
+ * }, "web");
+ *
+ * <Autocomplete {...control.handler("Autocomplete")} />
+ * ```
+ * @param {String} type
+ * @param {InputAdapter} adapter
+ * @param {"web"|"native"} platform
+ * @return {void}
+ */
+export function registerInputAdapter(type: string, adapter: InputAdapter, platform?: InputPlatform): void {
+  const platforms: InputPlatform[] = platform ? [platform] : ["web", "native"];
+  platforms.forEach(name => {
+    registry[name][type] = adapter;
+  });
+}
+
+/**
+ * Removes a registered adapter, the built-in adapter of the type is restored if any.
+ * @param {String} type
+ * @param {"web"|"native"} platform
+ * @return {void}
+ */
+export function unregisterInputAdapter(type: string, platform?: InputPlatform): void {
+  const platforms: InputPlatform[] = platform ? [platform] : ["web", "native"];
+  platforms.forEach(name => {
+    if (defaultAdapters[name][type]) {
+      registry[name][type] = defaultAdapters[name][type];
+    } else {
+      delete registry[name][type];
+    }
+  });
+}
+
+/**
+ * Returns the adapter of the current platform for the given type, the `default` one
+ * if none is registered.
+ * @param {String} type
+ * @return {InputAdapter}
+ */
+export function getInputAdapter(type?: string | null): InputAdapter {
+  const adapters = registry[getPlatform()];
+  return (type && adapters[type]) || adapters.default;
+}
+
+/**
+ * Reads the value from a change event with the adapter of the event target type.
+ * @param {any} event
+ * @return {any}
+ */
+export function getEventValue(event: any): any {
+  const adapter = getInputAdapter(event.target && event.target.type);
+  const read = adapter.getValue || getInputAdapter("default").getValue;
+  return read ? read(event) : event.target.value;
+}
+
+/**
+ * Returns the props binding an input to the control, mapped by the adapter of the input type.
+ * The `onChange` of the props reads the value with the `getValue` of the adapter if any,
+ * a value which isn't an event is passed as is to a built-in adapter.
+ * @param {String} inputType
+ * @param {any} value
+ * @param {FormControl} control
+ * @param {{ref: Boolean, hint: Boolean}} options
+ * @return {Object}
+ */
+export function getHandler(
+  inputType: string | undefined,
+  value: any,
+  control: FormControl,
+  options: HandlerOptions = {}
+): InputProps {
+  const adapter = getInputAdapter(inputType);
+  const getValue = adapter !== getInputAdapter("default") && adapter.getValue;
+  const readsAnyValue = !!inputType && isRegisteredAdapter(inputType);
+  const props: InputProps = {
+    value: getAbsoluteValue(control.viewValue),
+    onChange: getValue
+      ? (...args: any[]) => control.onChange(
+        isEvent(args[0]) || readsAnyValue ? getValue(args[0], ...args.slice(1)) : args[0]
+      )
+      : control.onChange,
+    onBlur: control.onBlur,
+    onFocus: control.onFocus,
+    disabled: control.disabled
+  };
+  const mappedProps = adapter.mapProps ? adapter.mapProps(props, control, value) : props;
+  if (!isReactNative()) {
+    Object.assign(mappedProps, getAccessibilityProps(inputType || "", value, control, options));
+  }
+  return mappedProps;
+}
@@ -0,0 +1,107 @@
+import { Mask } from "./types";
+
+/**
+ * The placeholders of a mask pattern, any other character is a literal.
+ */
+const MASK_TOKENS: { [token: string]: RegExp } = {
+  "9": /[0-9]/,
+  "a": /[a-zA-Z]/,
+  "*": /[0-9a-zA-Z]/
+};
+
+const isSignificant = (char: string) => /[0-9a-zA-Z]/.test(char);
+
+const stripLiterals = (value: string) => value.replace(/[^0-9a-zA-Z]/g, "");
+
+/**
+ * Applies a pattern, `9` stands for a digit, `a` for a letter and `*` for both,
+ * a placeholder is escaped with a backslash.
+ * @param {String} pattern
+ * @param {String} value
+ * @return {String}
+ */
+function applyPattern(pattern: string, value: string): string {
+  let masked = "";
+  let index = 0;
+  for (let i = 0; i < pattern.length && index < value.length; i++) {
+    const escaped = pattern[i] === "\\" && i + 1 < pattern.length;
+    const token = escaped ? pattern[++i] : pattern[i];
+    const placeholder = escaped ? null : MASK_TOKENS[token];
+    if (!placeholder) {
+      masked += token;
+      if (value[index] === token) {
+        index++;
+      }
+      continue;
+    }
+    while (index < value.length && !placeholder.test(value[index])) {
+      index++;
+    }
+    if (index === value.length) {
+      break;
+    }
+    masked += value[index++];
+  }
+  return masked;
+}
+
+/**
+ * Masks a value, the raw value holds the letters and digits of the masked value.
+ *
+ * ### Example
+ *
+ * ```
+ * applyMask("(999) 999-9999", "4155552671");
+ * // { masked: "(415) 555-2671", raw: "4155552671" }
+ * ```
+ * @param {String|Function} mask
+ * @param {String} value
+ * @return {{masked: String, raw: String}}
+ */
+export function applyMask(mask: Mask, value: string): { masked: string, raw: string } {
+  const masked = typeof mask === "function" ? mask(value) : applyPattern(mask, value);
+  return { masked, raw: stripLiterals(masked) };
+}
+
+/**
+ * Returns the caret position in the masked value, after as many letters and digits
+ * as there were before the caret in the typed value.
+ * @param {String} value
+ * @param {Number} caret
+ * @param {String} masked
+ * @return {Number}
+ */
+export function getMaskedCaret(value: string, caret: number, masked: string): number {
+  let count = stripLiterals(value.slice(0, caret)).length;
+  let position = 0;
+  while (count > 0 && position < masked.length) {
+    if (isSignificant(masked[position])) {
+      count--;
+    }
+    position++;
+  }
+  return position;
+}
+
+/**
+ * Writes the masked value to the input before React does, so the caret
+ * stays where the user is typing.
+ * DOM only: a React Native `TextInput` has no `setSelectionRange`, nothing is done
+ * and the masked value is rendered by the next render.
+ * @param {HTMLInputElement} input
+ * @param {String} masked
+ * @return {void}
+ */
+export function updateMaskedInput(input: any, masked: string): void {
+  if (!input || typeof input.setSelectionRange !== "function" || typeof input.selectionStart !== "number") {
+    return;
+  }
+  if (input.value === masked) {
+    return;
+  }
+  const caret = getMaskedCaret(input.value, input.selectionStart, masked);
+  input.value = masked;
+  if (input.ownerDocument && input.ownerDocument.activeElement === input) {
+    input.setSelectionRange(caret, caret);
+  }
+}
@@ -0,0 +1,38 @@
+import { SanitizerFn } from "./types";
+
+const sanitizeString = (fn: (value: string) => string): SanitizerFn =>
+  (value: any) => typeof value === "string" ? fn(value) : value;
+
+/**
+ * Built-in sanitizers, they only change string values.
+ *
+ * ### Example
+ *
+ * ```
+ * const email = new FormControl("", {
+ *   sanitizers: [Sanitizers.trim, Sanitizers.toLowerCase],
+ *   validators: Validators.email
+ * });
+ * ```
+ */
+export default class Sanitizers {
+  /**
+   * Removes the whitespace from both ends of the value.
+   */
+  public static trim: SanitizerFn = sanitizeString(value => value.trim());
+  public static toLowerCase: SanitizerFn = sanitizeString(value => value.toLowerCase());
+  public static toUpperCase: SanitizerFn = sanitizeString(value => value.toUpperCase());
+  /**
+   * Replaces every sequence of whitespace characters with a single space.
+   */
+  public static collapseWhitespace: SanitizerFn = sanitizeString(value => value.replace(/\s+/g, " "));
+  /**
+   * Removes the control characters, tabs and line breaks excepted.
+   */
+  public static removeControlChars: SanitizerFn =
+    sanitizeString(value => value.replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F\u007F]/g, ""));
+  /**
+   * Removes the HTML tags of the value, it doesn't replace escaping the value when it's rendered.
+   */
+  public static stripTags: SanitizerFn = sanitizeString(value => value.replace(/<\/?[a-zA-Z!][^>]*>/g, ""));
+}
@@ -1,7 +1,7 @@
 import { Observable } from "rxjs";
 import { AbstractControl } from "./AbstractControl";
 
-export type FormHooks = "change" | "blur" | "submit";
+export type FormHooks = "change" | "blur" | "submit" | "debounce";
 
 /**
  * Indicates that a FormControl is valid, i.e. that no errors exist in the input value.
@@ -27,18 +27,198 @@ export const DISABLED = "DISABLED";
 
 export type FieldStatus = "DISABLED" | "PENDING" | "INVALID" | "VALID";
 
+/**
+ * Decides whether the errors of a control should be shown.
+ */
+export type ErrorStateMatcher = (control: AbstractControl) => boolean;
+
+/**
+ * A pattern such as `(999) 999-9999`, where `9` stands for a digit, `a` for a letter
+ * and `*` for both, or a function returning the masked value.
+ */
+export type Mask = string | ((value: string) => string);
+
+/**
+ * Cleans a value up before it's validated, e.g. `Sanitizers.trim`.
+ */
+export type SanitizerFn = (value: any) => any;
+
+/**
+ * `interaction`: a control is dirty once the user has changed its value.
+ * `value`: a control is dirty while its value differs from its initial value (deep comparison).
+ */
+export type DirtyCheck = "interaction" | "value";
+
 export interface ValidatorOptions {
   validators?: ValidatorFn | ValidatorFn[] | null,
-  asyncValidators?: ValidatorFn | ValidatorFn[] | null,
-  updateOn?: FormHooks
+  /**
+   * Run in order on the values set through the input or `setValue`, before the validators.
+   */
+  sanitizers?: SanitizerFn | SanitizerFn[],
+  asyncValidators?: AsyncValidatorFn | AsyncValidatorFn[] | null,
+  /**
+   * Time in ms to wait after the last value change before running the async validators.
+   */
+  asyncDebounce?: number,
+  errorStateMatcher?: ErrorStateMatcher,
+  /**
+   * Focuses and scrolls to the first invalid control when the form is submitted.
+   */
+  focusInvalidOnSubmit?: boolean,
+  dirtyCheck?: DirtyCheck,
+  /**
+   * Converts the value of the input to the value of a `FormControl`, it throws when
+   * the input value is invalid.
+   */
+  parse?: (viewValue: any) => any,
+  /**
+   * Converts the value of a `FormControl` to the value displayed by the input.
+   */
+  format?: (value: any) => any,
+  /**
+   * Masks the value typed in the input. The caret is only kept in place for DOM inputs,
+   * on React Native the masked value is rendered through the `value` prop.
+   */
+  mask?: Mask,
+  /**
+   * Stores the masked value, e.g. `(415) 555-2671`, or only its letters and digits.
+   * Defaults to `masked`.
+   */
+  maskStorage?: "masked" | "raw",
+  /**
+   * `{ debounce: ms }` is a shorthand for `updateOn: "debounce"` and `debounceTime: ms`.
+   */
+  updateOn?: FormHooks | { debounce: number },
+  /**
+   * Time in ms to wait after the last change before committing the value, when updated on `debounce`.
+   */
+  debounceTime?: number
 }
 
 export type ValidationErrors = { [key: string]: any }
 
 export type ValidatorFn = (control: AbstractControl) => ValidationErrors | null
-export type AsyncValidatorFn = (control: AbstractControl) => Promise<ValidationErrors | null> | Observable<ValidationErrors | null>
+/**
+ * Passed to the async validators, the `signal` is aborted as soon as the result of the
+ * validation is not needed anymore, e.g. the value changed or the control has been disabled.
+ */
+export interface AsyncValidatorContext {
+  signal: AbortSignal
+}
+
+export type AsyncValidatorFn = (
+  control: AbstractControl,
+  context: AsyncValidatorContext
+) => Promise<ValidationErrors | null> | Observable<ValidationErrors | null>
+
+export type ControlPath = Array<string | number> | string
+
+/**
+ * The errors of a control, along with its path from the control they were collected from.
+ */
+export interface ControlErrorEntry {
+  path: Array<string | number>,
+  control: AbstractControl,
+  errors: ValidationErrors
+}
+
+export interface CrossFieldOptions {
+  /**
+   * Also sets the error on the offending child controls.
+   */
+  mirror?: boolean
+}
 
 export interface UpdateOptions {
   onlySelf?: boolean,
   emitEvent?: boolean
 }
+
+export interface SetValueOptions extends UpdateOptions {
+  /**
+   * Updates the value displayed by the input, `true` by default.
+   */
+  emitModelToViewChange?: boolean
+}
+
+export interface FocusOptions {
+  /**
+   * Scrolls the element into the view before focusing it.
+   */
+  scroll?: boolean
+}
+
+/**
+ * An element which can be registered with a `FormControl`, e.g. an input or a React Native `TextInput`.
+ */
+export interface FocusableElement {
+  focus: () => void,
+  scrollIntoView?: (options?: any) => void
+}
+
+export interface HandlerOptions {
+  /**
+   * Adds a `ref` callback which registers the element with the control.
+   */
+  ref?: boolean,
+  /**
+   * Links the hint element of the control through `aria-describedby`.
+   */
+  hint?: boolean
+}
+
+/**
+ * A boxed value, used to create a `FormControl` in a disabled state.
+ */
+export interface FormState<T = any> {
+  value: T,
+  disabled: boolean
+}
+
+/**
+ * Extracts the type of `value` from a control.
+ */
+export type ControlValue<T> = T extends AbstractControl<infer TValue, any> ? TValue : any;
+
+/**
+ * Extracts the type of `getRawValue()` from a control.
+ */
+export type ControlRawValue<T> = T extends AbstractControl<any, infer TRawValue> ? TRawValue : any;
+
+/**
+ * The value of a `FormGroup`, disabled controls are excluded so every key is optional.
+ */
+export type FormGroupValue<TControls> = { [K in keyof TControls]?: ControlValue<TControls[K]> };
+
+/**
+ * The raw value of a `FormGroup`, including the disabled controls.
+ */
+export type FormGroupRawValue<TControls> = { [K in keyof TControls]: ControlRawValue<TControls[K]> };
+
+export type FormArrayValue<TControl> = Array<ControlValue<TControl>>;
+
+export type FormArrayRawValue<TControl> = Array<ControlRawValue<TControl>>;
+
+export type DeepPartial<T> = T extends Array<infer TItem>
+  ? Array<DeepPartial<TItem>>
+  : T extends Date
+    ? T
+    : T extends object
+      ? { [K in keyof T]?: DeepPartial<T[K]> }
+      : T;
+
+type ChildControl<T, K> = T extends { controls: infer TControls }
+  ? 0 extends (1 & TControls)
+    ? AbstractControl
+    : TControls extends Array<infer TItem>
+      ? K extends `${number}` ? TItem : never
+      : K extends keyof TControls ? TControls[K] : never
+  : AbstractControl;
+
+/**
+ * Resolves the type of the control found at a dot delimited path, e.g. `'address.zip'`
+ * or `'items.0.price'`.
+ */
+export type GetControl<T, P extends string> = P extends `${infer Head}.${infer Tail}`
+  ? GetControl<ChildControl<T, Head>, Tail>
+  : ChildControl<T, P>;
@@ -1,4 +1,6 @@
 import { AbstractControl } from "./AbstractControl";
+import { HandlerOptions } from "./types";
+import Validators from "./validators";
 
 export const isReactNative = () =>
   typeof window !== "undefined" &&
@@ -24,11 +26,18 @@ export const propsToBeMap = {
   getError: "getError",
   status: "status",
   pending: "pending",
+  showErrors: "showErrors",
+  visibleErrors: "visibleErrors",
   pendingValue: "_pendingValue"
 };
-type NativeInputProp = "value" | "onValueChange" | "onChange" | "onBlur" | "onFocus" | "disabled" | "editable"
-type MappedInputProp = "value" | "onChange" | "onBlur" | "onFocus" | "disabled"
-export const controlsToBeMap = {
+
+/**
+ * @deprecated The props of an input are mapped by its adapter, see `registerInputAdapter`.
+ */
+export const controlsToBeMap: {
+  ReactNative: { [inputType: string]: { [prop: string]: string } },
+  default: { [prop: string]: string }
+} = {
   ReactNative: {
     switch: {
       value: "value",
@@ -57,43 +66,16 @@ export const controlsToBeMap = {
 export const getAbsoluteValue = (value: any) =>
   value === undefined || value === null ? "" : value;
 
-export const getInputControls = (inputType: NativeInputProp) =>
+/**
+ * @deprecated The props of an input are mapped by its adapter, see `getInputAdapter`
+ * and `getHandler` of the input adapters.
+ */
+export const getInputControls = (inputType: string) =>
   isReactNative()
     ? controlsToBeMap.ReactNative[inputType] ||
       controlsToBeMap.ReactNative.default
     : controlsToBeMap.default;
 
-export function getHandler(inputType: NativeInputProp, value: any, control: AbstractControl) {
-  const controlObject = {};
-  const inputControls = getInputControls(inputType);
-  Object.keys(inputControls).forEach(key => {
-    let controlProperty = null;
-    if (key === "value") {
-      if (control.updateOn !== "change") {
-        controlProperty = getAbsoluteValue(control._pendingValue);
-      } else {
-        controlProperty = getAbsoluteValue(control.value);
-      }
-    } else {
-      controlProperty = control[inputControls[key]];
-    }
-    controlObject[key] = controlProperty;
-  });
-  const mappedObject = controlObject;
-  switch (inputType) {
-    case "checkbox":
-      mappedObject["checked"] = !!mappedObject.value;
-      mappedObject["type"] = inputType;
-      break;
-    case "radio":
-      mappedObject["checked"] = mappedObject.value === value;
-      mappedObject.value = value;
-      mappedObject["type"] = inputType;
-      break;
-    default:
-  }
-  return mappedObject;
-}
 /**
  * Display warning messages
  * @param {condition} any
@@ -107,14 +89,85 @@ export function warning(condition?: any, message: string = ""): void {
     }
   }
 }
+let keyCounter = 0;
 /**
  * Generates the unique key for react elements
  * @param {*} pre
  */
 export const generateKey = (pre: any) => {
-  return `${pre}_${new Date().getTime()}`;
+  keyCounter += 1;
+  return `${pre}_${keyCounter}`;
 };
 
+/**
+ * Returns the input name of a control from its path, e.g. `address.zip`.
+ * @param {(String|Number)[]} path
+ * @return {String}
+ */
+export const getControlName = (path: Array<string | number>) => path.join(".");
+
+/**
+ * Returns the element id of a control, derived from its path, e.g. `field-address-zip`.
+ * The unique id of the control is used for a control without parent.
+ * @param {AbstractControl} control
+ * @return {String}
+ */
+export const getControlId = (control: AbstractControl) => {
+  const path = control.path;
+  return path.length ? ["field"].concat(path.map(String)).join("-") : control.id;
+};
+
+/**
+ * Returns the id of the element displaying the errors of a control.
+ * @param {AbstractControl} control
+ * @return {String}
+ */
+export const getErrorId = (control: AbstractControl) => `${getControlId(control)}-error`;
+
+/**
+ * Returns the id of the element displaying the hint of a control.
+ * @param {AbstractControl} control
+ * @return {String}
+ */
+export const getHintId = (control: AbstractControl) => `${getControlId(control)}-hint`;
+
+/**
+ * Returns the accessibility props of an input element, the `id` and the `name` are
+ * derived from the control path.
+ * @param {String} inputType
+ * @param {any} value
+ * @param {AbstractControl} control
+ * @param {{hint: Boolean}} options
+ * @return {Object}
+ */
+export function getAccessibilityProps(
+  inputType: string,
+  value: any,
+  control: AbstractControl,
+  options: HandlerOptions = {}
+): { [key: string]: any } {
+  const id = getControlId(control);
+  const describedBy = [];
+  if (options.hint) {
+    describedBy.push(getHintId(control));
+  }
+  if (control.showErrors) {
+    describedBy.push(getErrorId(control));
+  }
+  const props: { [key: string]: any } = {
+    "aria-invalid": control.showErrors,
+    "aria-required": control.hasValidator(Validators.required) || control.hasValidator(Validators.requiredTrue),
+    "id": inputType === "radio" ? `${id}-${value}` : id
+  };
+  if (describedBy.length) {
+    props["aria-describedby"] = describedBy.join(" ");
+  }
+  if (control.path.length) {
+    props.name = getControlName(control.path);
+  }
+  return props;
+}
+
 export const FIELD_PROPS = [
   "strict",
   "render",
@@ -124,7 +177,9 @@ export const FIELD_PROPS = [
   "formState",
   "options",
   "parent",
-  "meta"
+  "meta",
+  "subscribe",
+  "selector"
 ];
 
 export const mapConfigToFieldProps = (config: object) => {
@@ -138,3 +193,42 @@ export const mapConfigToFieldProps = (config: object) => {
   }
   return props;
 };
+
+/**
+ * Compares two values, objects are equal when their own keys hold the same values.
+ * @param {any} a
+ * @param {any} b
+ * @return {Boolean}
+ */
+export function shallowEqual(a: any, b: any): boolean {
+  if (Object.is(a, b)) return true;
+  if (typeof a !== "object" || a === null || typeof b !== "object" || b === null) {
+    return false;
+  }
+  const keysA = Object.keys(a);
+  const keysB = Object.keys(b);
+  if (keysA.length !== keysB.length) return false;
+  return keysA.every(key => b.hasOwnProperty(key) && Object.is(a[key], b[key]));
+}
+
+/**
+ * Compares two values, arrays and plain objects are compared recursively and
+ * dates by their time.
+ * @param {any} a
+ * @param {any} b
+ * @return {Boolean}
+ */
+export function deepEqual(a: any, b: any): boolean {
+  if (Object.is(a, b)) return true;
+  if (typeof a !== "object" || a === null || typeof b !== "object" || b === null) {
+    return false;
+  }
+  if (a instanceof Date || b instanceof Date) {
+    return a instanceof Date && b instanceof Date && a.getTime() === b.getTime();
+  }
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+  const keysA = Object.keys(a);
+  const keysB = Object.keys(b);
+  if (keysA.length !== keysB.length) return false;
+  return keysA.every(key => b.hasOwnProperty(key) && deepEqual(a[key], b[key]));
+}
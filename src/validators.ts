@@ -1,17 +1,25 @@
-import { concatAll, from, scheduled } from 'rxjs';
+import { forkJoin, from, Observable } from 'rxjs';
+import { map } from 'rxjs/operators';
 import { AbstractControl } from "./AbstractControl";
-import { AsyncValidatorFn, ValidationErrors, ValidatorFn } from "./types";
+import {
+  AsyncValidatorContext,
+  AsyncValidatorFn,
+  ControlPath,
+  CrossFieldOptions,
+  ValidationErrors,
+  ValidatorFn
+} from "./types";
 
 function isEmptyInputValue(value: any): boolean {
   return value == null || value.length === 0
 }
-function isPresent(o: ValidatorFn | null | undefined): boolean {
+function isPresent(o: ValidatorFn | AsyncValidatorFn | null | undefined): boolean {
   return o != null && o !== undefined
 }
-function _mergeErrors(arrayOfErrors: ValidationErrors[])
+function _mergeErrors(arrayOfErrors: Array<ValidationErrors | null>)
 : ValidationErrors | null {
   // tslint:disable-next-line: no-shadowed-variable
-  const res = arrayOfErrors.reduce((res, errors) => {
+  const res = arrayOfErrors.reduce((res: ValidationErrors, errors) => {
     return errors != null ? Object.assign({}, res, errors) : res
   }, {})
   return Object.keys(res).length === 0 ? null : res
@@ -22,12 +30,111 @@ function _executeValidators(
   return validators.map(v => v(control))
 }
 function _executeAsyncValidators(
-  control: AbstractControl, validators: ValidatorFn[]
-): Array<ValidationErrors | null> {
-  return validators.map(v => v(control))
+  control: AbstractControl, validators: AsyncValidatorFn[], context: AsyncValidatorContext
+): Array<Observable<ValidationErrors | null>> {
+  return validators.map(v => from(v(control, context)))
+}
+function _toDate(value: any): Date | null {
+  if (value instanceof Date) return isNaN(value.getTime()) ? null : value
+  if (typeof value !== 'string' && typeof value !== 'number') return null
+  const date = new Date(value)
+  return isNaN(date.getTime()) ? null : date
+}
+/**
+ * Adds or removes a group-level error on a child control, keeping the errors
+ * set by the child's own validators.
+ * It runs while the group is validated, so no event is emitted: the group emits
+ * its own events once its validation is done.
+ */
+function _mirrorError(control: AbstractControl | null, code: string, error: any): void {
+  if (!control) return
+  const hasError = !!control.errors && code in control.errors
+  if (!error && !hasError) return
+  const errors: ValidationErrors = { ...control.errors }
+  if (error) {
+    errors[code] = error
+  } else {
+    delete errors[code]
+  }
+  control.setErrors(Object.keys(errors).length ? errors : null, { emitEvent: false })
+}
+function _crossFieldError(
+  code: string, error: any, controls: Array<AbstractControl | null>, options: CrossFieldOptions
+): ValidationErrors | null {
+  if (options.mirror) {
+    controls.forEach(control => _mirrorError(control, code, error))
+  }
+  return error ? { [code]: error } : null
+}
+/**
+ * Returns the enabled item controls of a `FormArray` along with their index.
+ */
+function _arrayItems(control: AbstractControl): Array<{ index: number, control: AbstractControl }> {
+  const items: Array<{ index: number, control: AbstractControl }> = []
+  if (!Array.isArray(control.value)) return items
+  for (let index = 0, item = control._getChild(index); item; item = control._getChild(++index)) {
+    if (item.enabled) {
+      items.push({ index, control: item })
+    }
+  }
+  return items
 }
 
 const EMAIL_REGEXP = /^(([^<>()\[\]\\.,;:\s@"]+(\.[^<>()\[\]\\.,;:\s@"]+)*)|(".+"))@((\[[0-9]{1,3}\.[0-9]{1,3}\.[0-9]{1,3}\.[0-9]{1,3}\])|(([a-zA-Z\-0-9]+\.)+[a-zA-Z]{2,}))$/
+const URL_REGEXP = /^(https?|ftp):\/\/(([^\s:@/]+(:[^\s@/]*)?@)?(localhost|(\d{1,3}\.){3}\d{1,3}|([a-zA-Z0-9\u00a1-\uffff]([a-zA-Z0-9\u00a1-\uffff-]*[a-zA-Z0-9\u00a1-\uffff])?\.)+[a-zA-Z\u00a1-\uffff]{2,}))(:\d{1,5})?([/?#][^\s]*)?$/
+const INTEGER_REGEXP = /^[-+]?\d+$/
+const NUMERIC_REGEXP = /^[-+]?(\d+\.?\d*|\.\d+)$/
+const IBAN_REGEXP = /^[A-Z]{2}\d{2}[A-Z0-9]{11,30}$/
+const PHONE_E164_REGEXP = /^\+[1-9]\d{1,14}$/
+const UUID_REGEXP = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-8][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i
+const POSTAL_CODE_REGEXPS: { [country: string]: RegExp } = {
+  AT: /^\d{4}$/,
+  AU: /^\d{4}$/,
+  BE: /^\d{4}$/,
+  BR: /^\d{5}-?\d{3}$/,
+  CA: /^[ABCEGHJ-NPRSTVXY]\d[ABCEGHJ-NPRSTV-Z] ?\d[ABCEGHJ-NPRSTV-Z]\d$/i,
+  CH: /^\d{4}$/,
+  DE: /^\d{5}$/,
+  DK: /^\d{4}$/,
+  ES: /^\d{5}$/,
+  FR: /^\d{5}$/,
+  GB: /^[A-Z]{1,2}\d[A-Z\d]? ?\d[A-Z]{2}$/i,
+  IE: /^[AC-FHKNPRTV-Y]\d{2}[0-9W] ?[0-9AC-FHKNPRTV-Y]{4}$/i,
+  IN: /^[1-9]\d{5}$/,
+  IT: /^\d{5}$/,
+  JP: /^\d{3}-?\d{4}$/,
+  NL: /^\d{4} ?[A-Z]{2}$/i,
+  NO: /^\d{4}$/,
+  PL: /^\d{2}-\d{3}$/,
+  PT: /^\d{4}-\d{3}$/,
+  SE: /^\d{3} ?\d{2}$/,
+  US: /^\d{5}(-\d{4})?$/
+}
+
+function _luhnCheck(digits: string): boolean {
+  let sum = 0
+  for (let i = 0; i < digits.length; i++) {
+    let digit = parseInt(digits.charAt(digits.length - 1 - i), 10)
+    if (i % 2 === 1) {
+      digit *= 2
+      if (digit > 9) digit -= 9
+    }
+    sum += digit
+  }
+  return sum % 10 === 0
+}
+function _ibanCheck(iban: string): boolean {
+  const rearranged = iban.slice(4) + iban.slice(0, 4)
+  let remainder = 0
+  for (const char of rearranged) {
+    const code = char.charCodeAt(0)
+    const digits = code >= 65 ? String(code - 55) : char
+    for (const digit of digits) {
+      remainder = (remainder * 10 + parseInt(digit, 10)) % 97
+    }
+  }
+  return remainder === 1
+}
 
 
 export default class Validators {
@@ -136,6 +243,393 @@ export default class Validators {
         : { pattern: { requiredPattern: regexStr, actualValue: control.value } }
     }
   }
+  /**
+   * Validator that requires the control value to be an absolute http(s) or ftp URL.
+   */
+  public static url(control: AbstractControl): ValidationErrors | null {
+    if (isEmptyInputValue(control.value)) {
+      return null
+    }
+    return URL_REGEXP.test(control.value) ? null : { url: { actual: control.value } }
+  }
+  /**
+   * Validator that requires the control value to be an integer.
+   */
+  public static integer(control: AbstractControl): ValidationErrors | null {
+    if (isEmptyInputValue(control.value)) {
+      return null
+    }
+    return INTEGER_REGEXP.test(String(control.value).trim())
+      ? null
+      : { integer: { actual: control.value } }
+  }
+  /**
+   * Validator that requires the control value to be a number with at most `precision`
+   * digits, of which `scale` digits are reserved after the decimal point (like SQL `NUMERIC`).
+   * The error holds `actualPrecision` and `actualScale`, both `null` when the value isn't a number.
+   */
+  public static numeric(precision?: number, scale?: number): ValidatorFn {
+    return (control: AbstractControl) => {
+      if (isEmptyInputValue(control.value)) {
+        return null // don't validate empty values to allow optional controls
+      }
+      const value = String(control.value).trim()
+      if (!NUMERIC_REGEXP.test(value)) {
+        return { numeric: { precision, scale, actualPrecision: null, actualScale: null, actual: control.value } }
+      }
+      const [integerPart, fractionPart = ''] = value.replace(/^[-+]/, '').split('.')
+      const integerDigits = integerPart.replace(/^0+/, '').length
+      const actualScale = fractionPart.length
+      const actualPrecision = integerDigits + actualScale
+      return (precision != null && integerDigits + (scale != null ? scale : actualScale) > precision) ||
+        (scale != null && actualScale > scale)
+        ? { numeric: { precision, scale, actualPrecision, actualScale, actual: control.value } }
+        : null
+    }
+  }
+  /**
+   * Validator that requires the control value to be a credit card number passing
+   * the Luhn check. Spaces and dashes are ignored.
+   */
+  public static creditCard(control: AbstractControl): ValidationErrors | null {
+    if (isEmptyInputValue(control.value)) {
+      return null
+    }
+    const digits = String(control.value).replace(/[\s-]/g, '')
+    return /^\d{12,19}$/.test(digits) && _luhnCheck(digits)
+      ? null
+      : { creditCard: { actual: control.value } }
+  }
+  /**
+   * Validator that requires the control value to be an IBAN with a valid checksum.
+   * Spaces are ignored.
+   */
+  public static iban(control: AbstractControl): ValidationErrors | null {
+    if (isEmptyInputValue(control.value)) {
+      return null
+    }
+    const iban = String(control.value).replace(/\s/g, '').toUpperCase()
+    return IBAN_REGEXP.test(iban) && _ibanCheck(iban)
+      ? null
+      : { iban: { actual: control.value } }
+  }
+  /**
+   * Validator that requires the control value to be a postal code of the given country,
+   * identified by its ISO 3166-1 alpha-2 code.
+   */
+  public static postalCode(country: string): ValidatorFn {
+    const regex = POSTAL_CODE_REGEXPS[country.toUpperCase()]
+    if (!regex) {
+      throw new Error(`No postal code format is available for country: ${country}.`)
+    }
+    return (control: AbstractControl) => {
+      if (isEmptyInputValue(control.value)) {
+        return null // don't validate empty values to allow optional controls
+      }
+      return regex.test(String(control.value).trim())
+        ? null
+        : { postalCode: { country, actual: control.value } }
+    }
+  }
+  /**
+   * Validator that requires the control value to be a phone number in the E.164 format,
+   * e.g. `+14155552671`.
+   */
+  public static phoneE164(control: AbstractControl): ValidationErrors | null {
+    if (isEmptyInputValue(control.value)) {
+      return null
+    }
+    return PHONE_E164_REGEXP.test(control.value)
+      ? null
+      : { phoneE164: { actual: control.value } }
+  }
+  /**
+   * Validator that requires the control value to be a valid date. Values can be
+   * `Date` objects, date strings or timestamps.
+   */
+  public static date(control: AbstractControl): ValidationErrors | null {
+    if (isEmptyInputValue(control.value)) {
+      return null
+    }
+    return _toDate(control.value) ? null : { date: { actual: control.value } }
+  }
+  /**
+   * Validator that requires the control value to be a date on or after the given date.
+   * Throws when the given date is invalid.
+   */
+  public static minDate(minDate: Date | string | number): ValidatorFn {
+    const min = _toDate(minDate)
+    if (!min) {
+      throw new Error(`Invalid minDate: ${minDate}.`)
+    }
+    return (control: AbstractControl) => {
+      const date = _toDate(control.value)
+      if (!date) {
+        return null // invalid dates are reported by the date validator
+      }
+      return date.getTime() < min.getTime()
+        ? { minDate: { minDate, actual: control.value } }
+        : null
+    }
+  }
+  /**
+   * Validator that requires the control value to be a date on or before the given date.
+   * Throws when the given date is invalid.
+   */
+  public static maxDate(maxDate: Date | string | number): ValidatorFn {
+    const max = _toDate(maxDate)
+    if (!max) {
+      throw new Error(`Invalid maxDate: ${maxDate}.`)
+    }
+    return (control: AbstractControl) => {
+      const date = _toDate(control.value)
+      if (!date) {
+        return null // invalid dates are reported by the date validator
+      }
+      return date.getTime() > max.getTime()
+        ? { maxDate: { maxDate, actual: control.value } }
+        : null
+    }
+  }
+  /**
+   * Validator that requires the control value to be a UUID.
+   */
+  public static uuid(control: AbstractControl): ValidationErrors | null {
+    if (isEmptyInputValue(control.value)) {
+      return null
+    }
+    return UUID_REGEXP.test(control.value) ? null : { uuid: { actual: control.value } }
+  }
+  /**
+   * Validator that requires the control value to be a valid JSON string.
+   */
+  public static json(control: AbstractControl): ValidationErrors | null {
+    if (isEmptyInputValue(control.value)) {
+      return null
+    }
+    try {
+      JSON.parse(control.value)
+      return null
+    } catch (e) {
+      return { json: { actual: control.value, message: (e as Error).message } }
+    }
+  }
+  /**
+   * Group validator that requires the values of two controls to be equal.
+   */
+  public static matchFields(
+    path: ControlPath, matchingPath: ControlPath, options: CrossFieldOptions = {}
+  ): ValidatorFn {
+    return (group: AbstractControl) => {
+      const control = group.get(path)
+      const matchingControl = group.get(matchingPath)
+      const error = control && matchingControl && control.value !== matchingControl.value
+        ? { path, matchingPath }
+        : null
+      return _crossFieldError('matchFields', error, [matchingControl], options)
+    }
+  }
+  /**
+   * Group validator that requires a control to have a non-empty value when the
+   * predicate returns true for the group.
+   */
+  public static requiredIf(
+    path: ControlPath, predicate: (group: AbstractControl) => boolean, options: CrossFieldOptions = {}
+  ): ValidatorFn {
+    return (group: AbstractControl) => {
+      const control = group.get(path)
+      const error = control && predicate(group) && isEmptyInputValue(control.value)
+        ? { path }
+        : null
+      return _crossFieldError('requiredIf', error, [control], options)
+    }
+  }
+  /**
+   * Group validator that requires at least one of the controls to have a non-empty value.
+   */
+  public static atLeastOneRequired(paths: ControlPath[], options: CrossFieldOptions = {}): ValidatorFn {
+    return (group: AbstractControl) => {
+      const controls = paths.map(path => group.get(path))
+      const error = controls.every(control => !control || isEmptyInputValue(control.value))
+        ? { paths }
+        : null
+      return _crossFieldError('atLeastOneRequired', error, controls, options)
+    }
+  }
+  /**
+   * Group validator that requires the start date to be before or equal to the end date.
+   * Values can be `Date` objects, date strings or timestamps.
+   */
+  public static dateRange(
+    startPath: ControlPath, endPath: ControlPath, options: CrossFieldOptions = {}
+  ): ValidatorFn {
+    return (group: AbstractControl) => {
+      const startControl = group.get(startPath)
+      const endControl = group.get(endPath)
+      if (!startControl || !endControl) {
+        return _crossFieldError('dateRange', null, [endControl], options)
+      }
+      const start = _toDate(startControl.value)
+      const end = _toDate(endControl.value)
+      const error = start && end && start.getTime() > end.getTime()
+        ? { start: startControl.value, end: endControl.value }
+        : null
+      return _crossFieldError('dateRange', error, [endControl], options)
+    }
+  }
+  /**
+   * Group validator that requires the numeric values of the controls to add up to a total.
+   * Empty values count as zero, the validation is skipped while all of them are empty.
+   */
+  public static sumEquals(paths: ControlPath[], total: number, options: CrossFieldOptions = {}): ValidatorFn {
+    return (group: AbstractControl) => {
+      const controls = paths.map(path => group.get(path))
+      const values = controls.map(control => control ? control.value : null)
+      if (values.every(isEmptyInputValue)) {
+        return _crossFieldError('sumEquals', null, controls, options)
+      }
+      const actual = values.reduce((sum: number, value) => {
+        const parsedValue = parseFloat(value)
+        return isNaN(parsedValue) ? sum : sum + parsedValue
+      }, 0)
+      const error = Math.abs(actual - total) > 1e-9 ? { total, actual } : null
+      return _crossFieldError('sumEquals', error, controls, options)
+    }
+  }
+  /**
+   * Array validator that requires a minimum number of items.
+   */
+  public static minItems(minItems: number): ValidatorFn {
+    return (control: AbstractControl) => {
+      const length = Array.isArray(control.value) ? control.value.length : 0
+      return length < minItems
+        ? { minItems: { minItems, actual: length } }
+        : null
+    }
+  }
+  /**
+   * Array validator that requires a maximum number of items.
+   */
+  public static maxItems(maxItems: number): ValidatorFn {
+    return (control: AbstractControl) => {
+      const length = Array.isArray(control.value) ? control.value.length : 0
+      return length > maxItems
+        ? { maxItems: { maxItems, actual: length } }
+        : null
+    }
+  }
+  /**
+   * Array validator that requires the items of a `FormArray` to be unique.
+   *
+   * Items are compared by the value of a property, or by the result of a function
+   * applied to the item value. Empty keys are ignored. The error lists the indices
+   * of the colliding items, grouped by key.
+   *
+   * ### Example
+   * ```
+   * // { uniqueBy: { duplicates: [[0, 2]] } }
+   * Validators.uniqueBy('email')
+   * ```
+   */
+  public static uniqueBy(keyOrFn: string | ((value: any) => any)): ValidatorFn {
+    const getKey = typeof keyOrFn === 'function'
+      ? keyOrFn
+      : (value: any) => value != null ? value[keyOrFn] : null
+    return (control: AbstractControl) => {
+      const indicesByKey = new Map<any, number[]>()
+      _arrayItems(control).forEach(({ index, control: item }) => {
+        const key = getKey(item.value)
+        if (isEmptyInputValue(key)) return
+        const indices = indicesByKey.get(key) || []
+        indices.push(index)
+        indicesByKey.set(key, indices)
+      })
+      const duplicates: number[][] = []
+      indicesByKey.forEach(indices => {
+        if (indices.length > 1) duplicates.push(indices)
+      })
+      return duplicates.length ? { uniqueBy: { duplicates } } : null
+    }
+  }
+  /**
+   * Array validator that runs a validator against every item of a `FormArray`.
+   * The error holds the errors of the invalid items, keyed by index.
+   */
+  public static everyItem(validator: ValidatorFn): ValidatorFn {
+    return (control: AbstractControl) => {
+      const errors = _arrayItems(control).reduce((acc: ValidationErrors, { index, control: item }) => {
+        const itemErrors = validator(item)
+        if (itemErrors) acc[index] = itemErrors
+        return acc
+      }, {})
+      return Object.keys(errors).length ? { everyItem: errors } : null
+    }
+  }
+  /**
+   * Array validator that requires at least one item of a `FormArray` to pass a validator.
+   */
+  public static someItem(validator: ValidatorFn): ValidatorFn {
+    return (control: AbstractControl) => {
+      const items = _arrayItems(control)
+      return items.some(({ control: item }) => !validator(item))
+        ? null
+        : { someItem: true }
+    }
+  }
+  /**
+   * Runs the validators only when the predicate returns true for the control.
+   */
+  public static when(
+    predicate: (control: AbstractControl) => boolean, validators: ValidatorFn | ValidatorFn[]
+  ): ValidatorFn {
+    const validator = Validators.compose(Array.isArray(validators) ? validators : [validators])
+    return (control: AbstractControl) =>
+      validator && predicate(control) ? validator(control) : null
+  }
+  /**
+   * Passes when at least one of the validators passes, otherwise returns the union
+   * of their error maps.
+   */
+  public static or(...validators: ValidatorFn[]): ValidatorFn {
+    return (control: AbstractControl) => {
+      const results = _executeValidators(control, validators)
+      return results.some(errors => errors == null) ? null : _mergeErrors(results)
+    }
+  }
+  /**
+   * Inverts a validator, the control is invalid when the validator passes.
+   */
+  public static not(validator: ValidatorFn, errorCode: string = 'not'): ValidatorFn {
+    return (control: AbstractControl) =>
+      validator(control) == null ? { [errorCode]: true } : null
+  }
+  /**
+   * Runs the validators of the active validation group of the control, see
+   * `AbstractControl.setValidationGroup`. The validators under the `default` key run
+   * when no group is active or the active group isn't defined.
+   *
+   * ### Example
+   * ```
+   * Validators.groups({
+   *   draft: Validators.required,
+   *   publish: [Validators.required, Validators.minLength(20)]
+   * })
+   * ```
+   */
+  public static groups(groups: { [name: string]: ValidatorFn | ValidatorFn[] }): ValidatorFn {
+    const validators = Object.keys(groups).reduce((acc, name) => {
+      const group = groups[name]
+      acc[name] = Validators.compose(Array.isArray(group) ? group : [group])
+      return acc
+    }, {} as { [name: string]: ValidatorFn | null })
+    return (control: AbstractControl) => {
+      const name = control.validationGroup
+      const validator = name != null && name in validators
+        ? validators[name]
+        : validators.default
+      return validator ? validator(control) : null
+    }
+  }
   /**
    * Compose multiple validators into a single function that returns the union
    * of the individual error maps.
@@ -153,20 +647,19 @@ export default class Validators {
   }
   /**
    * Compose multiple async validators into a single function that returns the union
-   * of the individual error maps.
+   * of the individual error maps, once all of them have completed.
    * @param {(Function|null|undefined)[]|null} validators
    * @return {Function|null}
    */
   public static composeAsync(
-    validators?: Array<ValidatorFn | null | undefined>
+    validators?: Array<AsyncValidatorFn | null | undefined>
   ): AsyncValidatorFn | null {
     if (!validators) return null;
-    const presentValidators = validators.filter(isPresent) as ValidatorFn[]
+    const presentValidators = validators.filter(isPresent) as AsyncValidatorFn[]
     if (presentValidators.length === 0) return null;
-    return (control: AbstractControl) => {
-      const observables = _executeAsyncValidators(control, presentValidators)
-      return scheduled(from(Promise.all(observables)), _mergeErrors)
-      .pipe(concatAll())
+    return (control: AbstractControl, context: AsyncValidatorContext) => {
+      const observables = _executeAsyncValidators(control, presentValidators, context)
+      return forkJoin(observables).pipe(map(_mergeErrors))
     }
   }
 }